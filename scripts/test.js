@@ -0,0 +1,28 @@
+const esbuild = require('esbuild');
+
+const result = esbuild.buildSync({
+    entryPoints: ['test/index.ts'],
+    outfile: 'test/build/index.js',
+
+    charset: 'utf8',
+    format: 'cjs',
+    platform: 'node',
+    target: 'node20',
+
+    bundle: true,
+    logLevel: 'silent',
+});
+
+if (result.errors.length) {
+    result.errors = esbuild.formatMessagesSync(result.errors, { kind: 'error', color: true });
+    for (const error of result.errors) {
+        console.error(error);
+    }
+}
+
+if (result.warnings.length) {
+    result.warnings = esbuild.formatMessagesSync(result.warnings, { kind: 'warning', color: true });
+    for (const warning of result.warnings) {
+        console.warn(warning);
+    }
+}
@@ -1,11 +1,156 @@
+import AudioSourceNode from './AudioSourceNode.js';
+import EventRegistry, { ListenerHandle } from './EventRegistry.js';
+import buildOptions, * as defaults from './defaults.js';
+import fetchAudioData, { AudioLoadOptions, LoadProgressCallback } from './load.js';
+import parseOggMetadata, { OggMetadata } from './ogg.js';
+import { isPlayheadWorkletLoaded } from './playhead.js';
+import decryptAudio, { parseEncryptionKey } from './rpgmaker.js';
+
+/**
+ * Load state of an audio path in an {@link AudioSourceCache}
+ */
+export enum AudioLoadState {
+    /**
+     * The audio is not in the cache, and is not being loaded
+     */
+    UNLOADED = 'unloaded',
+
+    /**
+     * The audio is being loaded into the cache
+     */
+    LOADING = 'loading',
+
+    /**
+     * The audio is in the cache
+     */
+    LOADED = 'loaded',
+}
+
+export enum AudioCacheEventType {
+    /**
+     * Emitted when audio is evicted from the cache to stay within the memory budget.
+     * - `evicted(cache, path, bytes)` => ({@link AudioSourceCache}, `string`, `number`)
+     */
+    EVICTED = 'evicted',
+
+    /**
+     * Emitted while a file downloads, see {@link LoadProgressCallback}.
+     * - `progress(cache, path, loaded, total)` => ({@link AudioSourceCache}, `string`, `number`, `number`)
+     */
+    PROGRESS = 'progress',
+}
+
+/**
+ * Callback signatures for each {@link AudioCacheEventType}
+ */
+export type AudioCacheEventCallbacks = {
+    [AudioCacheEventType.EVICTED]: (cache: AudioSourceCache, path: string, bytes: number) => any;
+    [AudioCacheEventType.PROGRESS]: (
+        cache: AudioSourceCache,
+        path: string,
+        loaded: number,
+        total: number,
+    ) => any;
+};
+
+/**
+ * Handle returned by {@link AudioSourceCache#listenFor}, used to stop listening for the event
+ */
+export type AudioCacheListener = ListenerHandle<AudioCacheEventType>;
+
+/**
+ * Reference to audio in an {@link AudioSourceCache}. Audio is not unloaded or evicted while it has
+ * handles which are not released.
+ */
+export type AudioBufferHandle = {
+    readonly path: string;
+
+    /**
+     * Buffer with the position channel used by {@link AudioSourceNode}
+     */
+    readonly buffer: AudioBuffer;
+
+    /**
+     * `true` after `release()` has been called
+     */
+    readonly isReleased: boolean;
+
+    /**
+     * Acquires another handle to the same buffer, which must be released separately
+     */
+    acquire(): AudioBufferHandle;
+
+    /**
+     * Releases this reference to the audio. It is okay to call this multiple times.
+     */
+    release(): void;
+};
+
+export enum AudioPreloadEventType {
+    /**
+     * Emitted when a file finishes loading.
+     * - `loaded(preload, path, buffer)` => ({@link AudioPreload}, `string`, `AudioBuffer`)
+     */
+    LOADED = 'loaded',
+
+    /**
+     * Emitted when a file fails to load.
+     * - `failed(preload, path, error)` => ({@link AudioPreload}, `string`, `any`)
+     */
+    FAILED = 'failed',
+}
+
+/**
+ * Callback signatures for each {@link AudioPreloadEventType}
+ */
+export type AudioPreloadEventCallbacks = {
+    [AudioPreloadEventType.LOADED]: (preload: AudioPreload, path: string, buffer: AudioBuffer) => any;
+    [AudioPreloadEventType.FAILED]: (preload: AudioPreload, path: string, error: any) => any;
+};
+
+/**
+ * Handle returned by {@link AudioPreload#listenFor}, used to stop listening for the event
+ */
+export type AudioPreloadListener = ListenerHandle<AudioPreloadEventType>;
+
 /** Callback receiving an {@link AudioBuffer} */
 export type LoadAudioCallback = (buffer: AudioBuffer) => any;
 
+/** Callback receiving the error of a failed load */
+export type LoadAudioErrorCallback = (error: unknown) => any;
+
 /**
  * Simple cache for {@link AudioBuffer audio buffers}
  */
 export class AudioSourceCache {
     private _bufferCache: { [key: string]: AudioBuffer };
+    private _metadataCache: { [key: string]: OggMetadata | null };
+    private _positionBufferCache: { [key: string]: AudioBuffer };
+    private _pendingLoads: { [key: string]: { promise: Promise<AudioBuffer>; controller: AbortController } };
+    private encryptionKey: Uint8Array | null = null;
+
+    /**
+     * Maximum bytes of decoded audio to keep, `Infinity` to keep everything
+     */
+    private memoryBudget: number = Infinity;
+
+    /**
+     * Loaded paths from least to most recently used, relying on the insertion order of Set
+     */
+    private recentPaths: Set<string> = new Set();
+    private pinnedPaths: Set<string> = new Set();
+
+    /**
+     * Number of unreleased handles for each path
+     */
+    private references: { [key: string]: number } = {};
+
+    /**
+     * Paths which were unloaded while referenced, to be unloaded once all handles are released
+     */
+    private unloadOnRelease: Set<string> = new Set();
+
+    private readonly events: EventRegistry<AudioCacheEventCallbacks> = new EventRegistry();
 
     /**
      * Do not construct this directly, get a cache by invoking
@@ -13,6 +158,147 @@ export class AudioSourceCache {
      */
     constructor(private readonly audioContext: AudioContext) {
         this._bufferCache = {};
+        this._metadataCache = {};
+        this._positionBufferCache = {};
+        this._pendingLoads = {};
+    }
+
+    public toString(): string {
+        return `AudioSourceCache with context ${this.audioContext}`;
+    }
+
+    /**
+     * Set the key used to decrypt RPG Maker encrypted audio, such as `.rpgmvo` files. This is the
+     * `encryptionKey` value from System.json. Audio without the encryption header is loaded
+     * normally regardless of the key.
+     *
+     * @param key hexadecimal key string, `null` to remove the key
+     */
+    public setEncryptionKey(key: string | null): void {
+        this.encryptionKey = key == null ? null : parseEncryptionKey(key);
+    }
+
+    /**
+     * Set the maximum bytes of decoded audio to keep in the cache. When a load exceeds the
+     * budget, the least recently used audio is evicted until the cache is within the budget.
+     *
+     * Implementation Notes:
+     * - The size of audio is `length * channels * 4` bytes, for both the decoded buffer and the
+     *   buffer with a position channel used by {@link AudioSourceNode}.
+     * - Pinned audio, and audio with unreleased handles such as those held by an
+     *   {@link AudioSourceNode}, is never evicted. The cache can exceed the budget if all of its
+     *   audio is pinned or referenced.
+     * @param bytes memory budget in bytes, `null` to keep everything until unloaded
+     */
+    public setMemoryBudget(bytes: number | null): void {
+        if (bytes != null && !(bytes >= 0)) {
+            throw new RangeError(`Memory budget must be a non-negative number of bytes, got ${bytes}`);
+        }
+        this.memoryBudget = bytes ?? Infinity;
+        this.evict();
+    }
+
+    /**
+     * @returns the bytes of decoded audio in the cache
+     */
+    get memoryUsage(): number {
+        let bytes = 0;
+        for (const path in this._bufferCache) {
+            bytes += this.sizeOf(path);
+        }
+        return bytes;
+    }
+
+    /**
+     * Protect audio paths from eviction, whether or not they are loaded yet
+     *
+     * @param paths one or many audio paths to pin
+     */
+    public pin(...paths: string[]): void {
+        for (const path of paths) {
+            this.pinnedPaths.add(path);
+        }
+    }
+
+    /**
+     * Allow pinned audio paths to be evicted again
+     *
+     * @param paths one or many audio paths to unpin
+     */
+    public unpin(...paths: string[]): void {
+        for (const path of paths) {
+            this.pinnedPaths.delete(path);
+        }
+        this.evict();
+    }
+
+    /**
+     * Acquire a handle to loaded audio, preventing it from being unloaded or evicted until the
+     * handle is released. {@link AudioSourceNode} acquires a handle when loading through the cache,
+     * and releases it when destroyed.
+     *
+     * @param path audio path
+     * @param withPosition `false` for the decoded buffer, without the position channel
+     * @returns an {@link AudioBufferHandle}, `null` if the audio is not loaded
+     */
+    public acquire(path: string, withPosition: boolean = true): AudioBufferHandle | null {
+        const buffer = withPosition ? this.getPositionAudio(path) : this.getAudio(path);
+        if (!buffer) {
+            return null;
+        }
+        return this.createHandle(path, buffer);
+    }
+
+    /**
+     * Loads audio like {@link loadPositionAudioAsync}, and acquires a handle to it
+     *
+     * @param path audio path
+     * @param options retry and timeout behavior, if the audio is not loaded yet
+     * @param withPosition `false` for the decoded buffer, without the position channel
+     * @returns an {@link AudioBufferHandle}
+     */
+    public async acquireAsync(
+        path: string,
+        options?: AudioLoadOptions,
+        withPosition: boolean = true,
+    ): Promise<AudioBufferHandle> {
+        const buffer = withPosition
+            ? await this.loadPositionAudioAsync(path, false, options)
+            : await this.loadAudioAsync(path, false, options);
+        return this.createHandle(path, buffer);
+    }
+
+    /**
+     * @param path audio path
+     * @returns the number of unreleased handles to the audio
+     */
+    public getReferenceCount(path: string): number {
+        return this.references[path] ?? 0;
+    }
+
+    /**
+     * Assigns a callback to be called for the event. The first argument is always this cache.
+     *
+     * @param type event to listen for
+     * @param callback function to execute, see {@link AudioCacheEventCallbacks}
+     * @returns {AudioCacheListener} a handle to stop listening
+     */
+    public listenFor<T extends AudioCacheEventType>(
+        type: T,
+        callback: AudioCacheEventCallbacks[T],
+    ): AudioCacheListener {
+        return this.events.listen(type, callback);
+    }
+
+    /**
+     * Decrypts RPG Maker encrypted audio with the key of this cache. Data without the encryption
+     * header is returned unchanged.
+     *
+     * @param data contents of an audio file
+     * @returns the decrypted data
+     */
+    public decrypt(data: ArrayBuffer): ArrayBuffer {
+        return decryptAudio(data, this.encryptionKey);
     }
 
     /**
@@ -22,12 +308,71 @@ export class AudioSourceCache {
      * @returns the loaded {@link AudioBuffer} if it exists
      */
     public getAudio(path: string): AudioBuffer | null {
-        return this._bufferCache[path] ?? null;
+        const buffer = this._bufferCache[path];
+        if (!buffer) {
+            return null;
+        }
+        this.touch(path);
+        return buffer;
+    }
+
+    /**
+     * Get an audio buffer with the position channel used by {@link AudioSourceNode}, `null` if the
+     * audio is not in the cache. The buffer is computed once and shared by all sources.
+     *
+     * @param path audio path
+     * @returns the {@link AudioBuffer} with a position channel if the audio exists
+     */
+    public getPositionAudio(path: string): AudioBuffer | null {
+        const positionBuffer = this._positionBufferCache[path];
+        if (positionBuffer) {
+            this.touch(path);
+            return positionBuffer;
+        }
+        const buffer = this._bufferCache[path];
+        if (!buffer) {
+            return null;
+        }
+        this.touch(path);
+        this._positionBufferCache[path] = AudioSourceNode.computeBufferWithPositionChannel(buffer)!;
+        this.evict(path);
+        return this._positionBufferCache[path]!;
     }
 
     /**
-     * Test if a given audio path, or many, are loaded into the cache
+     * Get the Ogg Vorbis metadata of a loaded audio path, `null` if it is not loaded or the
+     * source is not Ogg Vorbis
      *
+     * @param path audio path
+     * @returns the {@link OggMetadata} if it exists
+     */
+    public getMetadata(path: string): OggMetadata | null {
+        return this._metadataCache[path] ?? null;
+    }
+
+    /**
+     * Get the load state of an audio path, including whether it is currently loading. Audio that
+     * is reloading after being invalidated is loading.
+     *
+     * @param path audio path
+     * @returns the {@link AudioLoadState} of the path
+     */
+    public getLoadState(path: string): AudioLoadState {
+        if (path in this._pendingLoads) {
+            return AudioLoadState.LOADING;
+        }
+        if (path in this._bufferCache) {
+            return AudioLoadState.LOADED;
+        }
+        return AudioLoadState.UNLOADED;
+    }
+
+    /**
+     * Test if a given audio path, or many, are loaded into the cache. Audio that is reloading
+     * after being invalidated is still loaded.
+     *
+     * @deprecated This cannot tell loading audio from unloaded audio, use {@link getLoadState}
+     * instead, which reports {@link AudioLoadState.LOADING} for audio that is loading.
      * @param paths one or many audio paths to check
      * @returns `true` if the audio paths exist in the cache, `false` otherwise
      */
@@ -45,70 +390,490 @@ export class AudioSourceCache {
      * passing the AudioBuffer to the callback. If the buffer exists in the
      * cache, the callback is immediately invoked with the buffer.
      *
+     * A load cancelled by {@link unloadAudio} or by invalidating the path calls neither callback.
+     *
      * @param path audio source to load
      * @param callback callback provided with the AudioBuffer when complete
+     * @param onError callback provided with the error if the load fails, the error is logged
+     * when omitted
      */
-    public loadAudio(path: string, callback: LoadAudioCallback): void;
+    public loadAudio(path: string, callback: LoadAudioCallback, onError?: LoadAudioErrorCallback): void;
     /**
      * Loads an audio source, retrieving from the cache if it's available, or
      * optionally invalidating the cache and reloading from the file system.
      * If the buffer exists in the cache, the callback is immediately invoked
      * with the buffer.
      *
+     * A load cancelled by {@link unloadAudio} or by invalidating the path calls neither callback.
+     *
      * @param path audio source to load
      * @param invalidate skip the cache and reload the source
      * @param callback callback provided with the AudioBuffer when complete
+     * @param onError callback provided with the error if the load fails, the error is logged
+     * when omitted
      */
-    public loadAudio(path: string, invalidate: boolean, callback: LoadAudioCallback): void;
+    public loadAudio(
+        path: string,
+        invalidate: boolean,
+        callback: LoadAudioCallback,
+        onError?: LoadAudioErrorCallback,
+    ): void;
     loadAudio(
         path: string,
         callbackOrInvalidate: boolean | LoadAudioCallback,
-        callback: LoadAudioCallback = () => {},
+        callbackOrError?: LoadAudioCallback | LoadAudioErrorCallback,
+        onError?: LoadAudioErrorCallback,
     ): void {
         let invalidate: boolean = false;
+        let callback: LoadAudioCallback = () => {};
         if (typeof callbackOrInvalidate == 'boolean') {
             invalidate = callbackOrInvalidate;
+            callback = callbackOrError ?? callback;
         } else if (typeof callbackOrInvalidate == 'function') {
             callback = callbackOrInvalidate;
+            onError = callbackOrError as LoadAudioErrorCallback | undefined;
         }
 
         if (!invalidate && path in this._bufferCache) {
-            callback(this._bufferCache[path]!);
+            callback(this.getAudio(path)!);
             return;
         }
 
-        this.loadAudioAsync(path, invalidate).then(callback);
+        this.loadAudioAsync(path, invalidate).then(callback, (err) => {
+            if (err instanceof DOMException && err.name == 'AbortError') {
+                return;
+            }
+            if (onError) {
+                onError(err);
+            } else {
+                console.error(`Failed to load audio "${path}":`);
+                console.error(err);
+            }
+        });
     }
 
     /**
      * Loads an audio source, retrieving from the cache if it's available, or
      * optionally invalidating the cache and reloading from the file system.
      *
+     * Implementation Notes:
+     * - Concurrent calls for the same path share a single load.
+     * - Invalidating while the path is loading aborts the pending load. Callers waiting on the
+     *   aborted load receive the buffer of the new load instead.
+     * - Unloading the path while it is loading aborts the load, rejecting with an `AbortError`.
+     * - Failed requests are retried according to `options`, which only apply when this call
+     *   starts a new load. The promise rejects once all attempts have failed.
      * @param path audio source to load
      * @param invalidate skip the cache and reload the source
+     * @param options retry and timeout behavior
      * @returns an {@link AudioBuffer}
      */
-    public async loadAudioAsync(path: string, invalidate: boolean = false): Promise<AudioBuffer> {
-        if (!invalidate && path in this._bufferCache) {
-            return this._bufferCache[path]!;
+    public async loadAudioAsync(
+        path: string,
+        invalidate: boolean = false,
+        options?: AudioLoadOptions,
+    ): Promise<AudioBuffer> {
+        if (!invalidate) {
+            if (path in this._bufferCache) {
+                this.unloadOnRelease.delete(path);
+                return this.getAudio(path)!;
+            }
+            const pending = this._pendingLoads[path];
+            if (pending) {
+                return pending.promise;
+            }
+        }
+
+        this._pendingLoads[path]?.controller.abort();
+
+        const controller = new AbortController();
+        const load = {
+            controller,
+            promise: this.fetchAudio(
+                path,
+                buildOptions(options, defaults.loadDefault),
+                controller.signal,
+            ).then(
+                ([decodedBuffer, metadata]): AudioBuffer | Promise<AudioBuffer> => {
+                    const current = this._pendingLoads[path];
+                    if (current == load) {
+                        delete this._pendingLoads[path];
+                    } else if (controller.signal.aborted) {
+                        // Finished as it was aborted, the abort takes precedence
+                        if (current) {
+                            return current.promise;
+                        }
+                        throw controller.signal.reason;
+                    }
+                    this._bufferCache[path] = decodedBuffer;
+                    this._metadataCache[path] = metadata;
+                    delete this._positionBufferCache[path];
+                    this.unloadOnRelease.delete(path);
+                    this.touch(path);
+                    this.evict(path);
+                    return decodedBuffer;
+                },
+                (err): Promise<AudioBuffer> => {
+                    const current = this._pendingLoads[path];
+                    if (current == load) {
+                        delete this._pendingLoads[path];
+                    } else if (current && controller.signal.aborted) {
+                        // Superseded by an invalidating load
+                        return current.promise;
+                    }
+                    throw err;
+                },
+            ),
+        };
+        this._pendingLoads[path] = load;
+        return load.promise;
+    }
+
+    /**
+     * Fetches, decrypts and decodes an audio file, without touching the cache
+     */
+    private async fetchAudio(
+        path: string,
+        options: Required<AudioLoadOptions>,
+        signal: AbortSignal,
+    ): Promise<[AudioBuffer, OggMetadata | null]> {
+        const audioData = this.decrypt(
+            await fetchAudioData(path, options, signal, (loaded, total) =>
+                this.events.emit(this, AudioCacheEventType.PROGRESS, path, loaded, total),
+            ),
+        );
+        const metadata = parseOggMetadata(audioData);
+        const decodedBuffer = await this.audioContext.decodeAudioData(audioData);
+        signal.throwIfAborted();
+        return [decodedBuffer, metadata];
+    }
+
+    /**
+     * Loads an audio source like {@link loadAudioAsync}, returning the buffer with the position
+     * channel used by {@link AudioSourceNode}.
+     *
+     * @param path audio source to load
+     * @param invalidate skip the cache and reload the source
+     * @param options retry and timeout behavior
+     * @returns an {@link AudioBuffer} with a position channel
+     */
+    public async loadPositionAudioAsync(
+        path: string,
+        invalidate: boolean = false,
+        options?: AudioLoadOptions,
+    ): Promise<AudioBuffer> {
+        await this.loadAudioAsync(path, invalidate, options);
+        return this.getPositionAudio(path)!;
+    }
+
+    /**
+     * Loads many audio sources into the cache, at most `concurrency` at a time. Audio that is
+     * already loaded completes immediately.
+     *
+     * @param paths audio sources to load, duplicates are loaded once
+     * @param concurrency maximum number of files to load at the same time
+     * @returns an {@link AudioPreload} to follow the progress of the loads
+     */
+    public preload(paths: string[], concurrency: number = 4): AudioPreload {
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new RangeError(`Preload concurrency must be a positive integer, got ${concurrency}`);
         }
-        const audioFile = await fetch(path);
-        const decodedBuffer = await this.audioContext.decodeAudioData(await audioFile.arrayBuffer());
-        this._bufferCache[path] = decodedBuffer;
-        return decodedBuffer;
+        // Sources report their position from a worklet instead of the position channel
+        const withPosition = !isPlayheadWorkletLoaded(this.audioContext);
+        return new AudioPreload(this, [...new Set(paths)], concurrency, withPosition);
     }
 
     /**
      * Unloads an audio buffer from the cache, allowing it to be released.
-     * Pass no path to unload the entire cache.
+     * Pending loads of the path are aborted. Pass no path to unload the entire cache.
      *
+     * Implementation Notes:
+     * - Audio with unreleased handles stays in the cache until all handles are released, so
+     *   sources loading the same path keep sharing the buffer. It is then unloaded automatically.
+     * - Loading the path again before then cancels the unload.
      * @param path specific path to unload
      */
     public unloadAudio(path?: string): void {
-        if (typeof path == 'string') {
-            delete this._bufferCache[path];
+        if (typeof path != 'string') {
+            for (const pending of Object.values(this._pendingLoads)) {
+                pending.controller.abort();
+            }
+            this._pendingLoads = {};
+            for (const loadedPath of Object.keys(this._bufferCache)) {
+                this.unloadAudio(loadedPath);
+            }
+            return;
+        }
+
+        this._pendingLoads[path]?.controller.abort();
+        delete this._pendingLoads[path];
+        if (this.references[path]) {
+            this.unloadOnRelease.add(path);
+            return;
+        }
+        this.removeAudio(path);
+    }
+
+    /**
+     * Removes all cached data of the path
+     */
+    private removeAudio(path: string): void {
+        delete this._bufferCache[path];
+        delete this._metadataCache[path];
+        delete this._positionBufferCache[path];
+        this.unloadOnRelease.delete(path);
+        this.recentPaths.delete(path);
+    }
+
+    private createHandle(path: string, buffer: AudioBuffer): AudioBufferHandle {
+        this.references[path] = (this.references[path] ?? 0) + 1;
+        const cache = this;
+        let isReleased = false;
+        return {
+            path,
+            buffer,
+            get isReleased() {
+                return isReleased;
+            },
+            acquire() {
+                return cache.createHandle(path, buffer);
+            },
+            release() {
+                if (isReleased) {
+                    return;
+                }
+                isReleased = true;
+                cache.release(path);
+            },
+        };
+    }
+
+    private release(path: string): void {
+        const references = (this.references[path] ?? 1) - 1;
+        if (references > 0) {
+            this.references[path] = references;
+            return;
+        }
+        delete this.references[path];
+        if (this.unloadOnRelease.has(path)) {
+            this.removeAudio(path);
         } else {
-            this._bufferCache = {};
+            this.evict();
+        }
+    }
+
+    /**
+     * Marks the path as the most recently used
+     */
+    private touch(path: string): void {
+        this.recentPaths.delete(path);
+        this.recentPaths.add(path);
+    }
+
+    /**
+     * @returns the bytes used by the audio of the path
+     */
+    private sizeOf(path: string): number {
+        let bytes = 0;
+        for (const buffer of [this._bufferCache[path], this._positionBufferCache[path]]) {
+            if (buffer) {
+                bytes += buffer.length * buffer.numberOfChannels * 4;
+            }
+        }
+        return bytes;
+    }
+
+    /**
+     * Evicts the least recently used audio until the cache is within the memory budget
+     * @param keep path to never evict, such as the audio that was just loaded
+     */
+    private evict(keep?: string): void {
+        if (this.memoryBudget == Infinity) {
+            return;
+        }
+
+        let usage = this.memoryUsage;
+        for (const path of [...this.recentPaths]) {
+            if (usage <= this.memoryBudget) {
+                break;
+            }
+            if (path == keep || this.pinnedPaths.has(path) || this.references[path]) {
+                continue;
+            }
+
+            const bytes = this.sizeOf(path);
+            usage -= bytes;
+            this.removeAudio(path);
+            this.events.emit(this, AudioCacheEventType.EVICTED, path, bytes);
+        }
+    }
+}
+
+/**
+ * Progress of an {@link AudioSourceCache#preload} call
+ */
+export class AudioPreload {
+    private readonly pending: string[];
+    private readonly cancelledPaths: string[] = [];
+    private readonly failures: { [path: string]: any } = {};
+    private _loaded: number = 0;
+
+    /**
+     * Download progress of the files this preload has started loading
+     */
+    private readonly downloads: Map<string, { loaded: number; total: number }> = new Map();
+    private readonly events: EventRegistry<AudioPreloadEventCallbacks> = new EventRegistry();
+
+    /**
+     * Resolves with this preload when every file has loaded or failed. Never rejects, check
+     * `failedPaths` for files that could not be loaded.
+     */
+    readonly done: Promise<AudioPreload>;
+
+    /**
+     * Do not construct this directly, start a preload by invoking
+     * `preload()` on your AudioSourceCache.
+     */
+    constructor(
+        private readonly cache: AudioSourceCache,
+        readonly paths: readonly string[],
+        concurrency: number,
+        private readonly withPosition: boolean,
+    ) {
+        this.pending = [...paths];
+        const progressListener = cache.listenFor(AudioCacheEventType.PROGRESS, (_, path, loaded, total) => {
+            const download = this.downloads.get(path);
+            if (download) {
+                download.loaded = loaded;
+                download.total = total;
+            }
+        });
+        const workers = [];
+        for (let i = 0; i < Math.min(concurrency, paths.length); i++) {
+            workers.push(this.work());
+        }
+        this.done = Promise.all(workers).then(() => {
+            progressListener.remove();
+            return this;
+        });
+    }
+
+    public toString(): string {
+        return `AudioPreload of ${this.paths.length} files`;
+    }
+
+    /**
+     * Number of files to load, not counting files cancelled before they started loading
+     */
+    get total(): number {
+        return this.paths.length - this.cancelledPaths.length;
+    }
+
+    /**
+     * Number of files that have loaded
+     */
+    get loaded(): number {
+        return this._loaded;
+    }
+
+    /**
+     * Number of files that failed to load
+     */
+    get failed(): number {
+        return Object.keys(this.failures).length;
+    }
+
+    /**
+     * Number of files cancelled before they started loading, see {@link cancel}
+     */
+    get cancelled(): number {
+        return this.cancelledPaths.length;
+    }
+
+    /**
+     * Fraction of files that have finished, loaded or failed, from 0 to 1. Reaches 1 once the files
+     * still loading after {@link cancel} have finished.
+     */
+    get progress(): number {
+        return this.total ? (this.loaded + this.failed) / this.total : 1;
+    }
+
+    /**
+     * Bytes downloaded so far by the files this preload started loading. Files that were already in
+     * the cache download nothing.
+     */
+    get bytes(): number {
+        let bytes = 0;
+        this.downloads.forEach((download) => (bytes += download.loaded));
+        return bytes;
+    }
+
+    /**
+     * Bytes to download, the sum of the sizes reported by the files which have started downloading.
+     * It grows as more files start, and does not include files of unknown size.
+     */
+    get totalBytes(): number {
+        let bytes = 0;
+        this.downloads.forEach((download) => (bytes += download.total));
+        return bytes;
+    }
+
+    /**
+     * Paths of files that failed to load
+     */
+    get failedPaths(): string[] {
+        return Object.keys(this.failures);
+    }
+
+    /**
+     * @param path audio path
+     * @returns the error of a file that failed to load, `undefined` if it has not failed
+     */
+    public getError(path: string): any {
+        return this.failures[path];
+    }
+
+    /**
+     * Stops loading files that have not started loading. Files already loading will finish, and
+     * the cancelled files are no longer counted in {@link total}.
+     */
+    public cancel(): void {
+        this.cancelledPaths.push(...this.pending);
+        this.pending.length = 0;
+    }
+
+    /**
+     * Assigns a callback to be called for the event. The first argument is always this preload.
+     *
+     * @param type event to listen for
+     * @param callback function to execute, see {@link AudioPreloadEventCallbacks}
+     * @returns {AudioPreloadListener} a handle to stop listening
+     */
+    public listenFor<T extends AudioPreloadEventType>(
+        type: T,
+        callback: AudioPreloadEventCallbacks[T],
+    ): AudioPreloadListener {
+        return this.events.listen(type, callback);
+    }
+
+    /**
+     * Loads pending files one at a time until there are none left
+     */
+    private async work(): Promise<void> {
+        let path: string | undefined;
+        while ((path = this.pending.shift()) != undefined) {
+            this.downloads.set(path, { loaded: 0, total: 0 });
+            try {
+                const buffer = await this.cache.loadAudioAsync(path);
+                if (this.withPosition) {
+                    this.cache.getPositionAudio(path);
+                }
+                this._loaded++;
+                this.events.emit(this, AudioPreloadEventType.LOADED, path, buffer);
+            } catch (err) {
+                this.failures[path] = err;
+                this.events.emit(this, AudioPreloadEventType.FAILED, path, err);
+            }
         }
     }
 }
@@ -1,6 +1,33 @@
+import { AudioBufferHandle, AudioSourceCache } from './AudioSourceCache.js';
 import automation, { AudioAdjustmentOptions } from './automation.js';
 import buildOptions, * as defaults from './defaults.js';
+import EffectChain from './EffectChain.js';
 import HRTFPannerNode from './HRTFPannerNode.js';
+import fetchAudioData, { AudioLoadOptions } from './load.js';
+import parseOggMetadata, { OggMetadata } from './ogg.js';
+import Playhead, { isPlayheadWorkletLoaded } from './playhead.js';
+import decryptAudio, { parseEncryptionKey } from './rpgmaker.js';
+
+/**
+ * Milliseconds to wait after a fade before rewiring, so the fade has completed on the audio thread
+ */
+const FADE_MARGIN = 20;
+
+/**
+ * Effect chain of a source, shared with the clones continuing its playback
+ */
+type SourceEffects = {
+    /**
+     * Node feeding the chain, which every sharing source connects to
+     */
+    input: GainNode;
+    chain: EffectChain;
+
+    /**
+     * Number of sources sharing the chain
+     */
+    sources: number;
+};
 
 export class AudioSourceNodeEvent {
     #propagationStopped = false;
@@ -36,6 +63,16 @@ export class EventLoaded extends AudioSourceNodeEvent {
     }
 }
 
+export class EventError extends AudioSourceNodeEvent {
+    constructor(
+        target: AudioSourceNode,
+        time: number,
+        readonly error: unknown,
+    ) {
+        super('error', target, time);
+    }
+}
+
 type Listener<E extends AudioSourceNodeEvent> = {
     handleEvent(this: AudioSourceNode, event: E): void;
     options: AddEventListenerOptions;
@@ -65,6 +102,11 @@ type Listener<E extends AudioSourceNodeEvent> = {
  * This allows us to not mess around with float pointing precision or fancy multiplications, and just
  * save integers counting from -(length / 2) to +(length / 2).
  *
+ * Longer buffers use two position channels instead. A coarse channel saves the sample index as is,
+ * which is off by at most a few hundred samples once it is too large for a 32 bit float, and a fine
+ * channel saves the index modulo 65,536, which is always exact. The position is the index matching
+ * the fine channel that is nearest to the coarse channel, exact for any length of buffer.
+ *
  * Notice: There is a supported method to obtain a playhead position from an audio source, however
  * it is only supported by the Audio() object, it must be passed to a MediaElementAudioSourceNode
  * which is then connected to the rest of the audio graph.
@@ -72,23 +114,46 @@ type Listener<E extends AudioSourceNodeEvent> = {
  * The downside is that scheduling and parameter automation are entirely unsupported, as well as
  * the fact that we cannot share buffers between Audio objects; they must load an audio source
  * every time they are constructed. Because of this, we cannot use Audio() objects.
+ *
+ * Alternatively, once `Mixer.usePlayheadWorklet()` has completed, new sources follow the playhead
+ * from an AudioWorklet instead, which needs no position channel. See {@link Playhead}.
  */
 class AudioSourceNode {
     private static TAG = '__musicmixer';
 
+    /** Longest buffer which can use a single position channel, see computeBufferWithPositionChannel() */
+    private static MAX_SINGLE_POSITION_LENGTH = 2 ** 25;
+
+    /** Modulus of the fine position channel */
+    private static FINE_POSITION_MODULUS = 2 ** 16;
+
     private sourceNode: AudioBufferSourceNode;
     private readonly gainNode: GainNode;
     private readonly stereoPannerNode: StereoPannerNode;
+    private sourceEffects: SourceEffects;
     private hrtfPannerNode: HRTFPannerNode | null = null;
 
+    /**
+     * Gain between the volume and the effects, while fading in or out of a continuation, see
+     * {@link continueAt}
+     */
+    private fadeNode: GainNode | null = null;
+    private fadeGeneration: number = 0;
+
     private path: string | null = null;
     private _isDestroyed: boolean = false;
     private _isStarted: boolean = false;
     private _isStopped: boolean = false;
     private _isEnded: boolean = false;
     private _isLoaded: boolean = false;
+    private _isFailed: boolean = false;
+    private _loadError: unknown = null;
+    private _metadata: OggMetadata | null = null;
+    private isLoopSet: boolean = false;
+    private bufferHandle: AudioBufferHandle | null = null;
     private onLoadedListeners: Listener<EventLoaded>[] = [];
     private onEndedListeners: Listener<EventEnded>[] = [];
+    private onErrorListeners: Listener<EventError>[] = [];
 
     private onEndedInternalCallback: (event: Event) => void = () => {
         this._isEnded = true;
@@ -97,11 +162,17 @@ class AudioSourceNode {
 
     // Nodes necessary for tracking position
     private readonly analyser: AnalyserNode;
+    // Only created for buffers with a coarse position channel
+    private coarseAnalyser?: AnalyserNode;
     private merger?: ChannelMergerNode;
     private splitter?: ChannelSplitterNode;
     // Is an array of 1 element because this is how we must retrieve the channel data from the position track
-    private readonly positionContainer: Float32Array = new Float32Array(1);
+    private readonly positionContainer = new Float32Array(1);
+    private readonly coarsePositionContainer = new Float32Array(1);
     private bufferHalfLength: number | null = null;
+    private positionChannels: number = 0;
+    // Replaces the position channels when the playhead worklet is loaded
+    private readonly playhead: Playhead | null;
 
     readonly numberOfInputs: number = 0;
     readonly numberOfOutputs: number = 1;
@@ -121,8 +192,12 @@ class AudioSourceNode {
         this.gainNode = audioContext.createGain();
         this.stereoPannerNode = audioContext.createStereoPanner();
         this.stereoPannerNode.connect(this.gainNode);
+        this.sourceEffects = AudioSourceNode.createEffects(audioContext);
+        this.gainNode.connect(this.sourceEffects.input);
 
         this.analyser = audioContext.createAnalyser();
+        this.playhead = isPlayheadWorkletLoaded(audioContext) ? new Playhead(audioContext) : null;
+        this.playhead?.connectSource(this.sourceNode);
 
         if (destination) {
             this.connect(destination);
@@ -135,35 +210,222 @@ class AudioSourceNode {
      * Creates and returns a clone of this AudioSourceNode, specifically of just the
      * audio context, buffer, and source path.
      *
-     * No other internal state, like volume, is copied.
+     * No other internal state, like volume, is copied. The clone shares the buffer, see
+     * {@link copyBufferTo}.
+     *
+     * The clone has an effect chain of its own, unless `shareEffects` is `true`. A clone sharing the
+     * effects of this node also shares its output and {@link HRTFPannerNode}, so connecting either
+     * node connects both. Use {@link continueAt} to carry playback over to such a clone.
      * @param owner the object that will take ownership of the clone
+     * @param shareEffects `true` to feed the effect chain of this node instead of a new one
      * @returns clone
      */
-    public clone(owner: any): AudioSourceNode {
+    public clone(owner: any, shareEffects: boolean = false): AudioSourceNode {
         this.throwIfDestroyed();
         const selfClone = new AudioSourceNode(this.audioContext, owner);
         selfClone.path = this.path;
         this.copyBufferTo(selfClone);
+        selfClone._metadata = this._metadata;
+        selfClone.applyLoopMetadata();
+        if (shareEffects) {
+            selfClone.useEffects(this.sourceEffects);
+            selfClone.hrtfPannerNode = this.hrtfPannerNode;
+        }
         return selfClone;
     }
 
     /**
-     * Copies this buffer into a given AudioSourceNode.
-     * @param other AudioSourceNode to copy into
+     * Continues playback of this node on a clone which shares its settings and effect chain. This
+     * node fades out and the clone fades in ahead of the effects, so the effects process both without
+     * a break. Used by tracks to jump, seek and restart a playing source.
+     *
+     * Implementation Notes:
+     * - This node stops once faded out, then leaves the effect chain to the clone, taking a new empty
+     *   chain and no {@link HRTFPannerNode}.
+     * - Fade delays are relative to now, like other automations.
+     * @param owner the object that will take ownership of the clone
+     * @param when AudioContext time the clone starts playback
+     * @param offset offset into the buffer the clone starts playback from, in seconds
+     * @param fadeOut adjustment parameters for fading out this node
+     * @param fadeIn adjustment parameters for fading in the clone
+     * @returns the clone
+     */
+    public continueAt(
+        owner: any,
+        when: number,
+        offset: number,
+        fadeOut: Required<AudioAdjustmentOptions>,
+        fadeIn: Required<AudioAdjustmentOptions>,
+    ): AudioSourceNode {
+        this.throwIfDestroyed();
+        const continuation = this.clone(owner, true);
+        this.copySettingsTo(continuation);
+
+        const fadeOutGain = this.fade();
+        const fadeOutGeneration = this.fadeGeneration;
+        automation(this.audioContext, fadeOutGain.gain, 0, fadeOut, true);
+        const fadeOutEnd = fadeOut.delay + fadeOut.duration;
+        this.stop(this.audioContext.currentTime + fadeOutEnd);
+        setTimeout(() => this.leaveEffects(fadeOutGeneration), 1000 * fadeOutEnd + FADE_MARGIN);
+
+        const fadeInGain = continuation.fade();
+        const fadeInGeneration = continuation.fadeGeneration;
+        fadeInGain.gain.value = 0;
+        automation(this.audioContext, fadeInGain.gain, 1, fadeIn, true);
+        continuation.start(when, offset);
+        setTimeout(
+            () => continuation.releaseFade(fadeInGeneration),
+            1000 * (fadeIn.delay + fadeIn.duration) + FADE_MARGIN,
+        );
+
+        return continuation;
+    }
+
+    /**
+     * Creates an effect chain for a single source
+     */
+    private static createEffects(audioContext: AudioContext): SourceEffects {
+        const input = audioContext.createGain();
+        return { input, chain: new EffectChain(audioContext, input), sources: 1 };
+    }
+
+    /**
+     * Feeds a shared effect chain instead of the current one
+     * @param effects effect chain of another node
+     */
+    private useEffects(effects: SourceEffects): void {
+        (this.fadeNode ?? this.gainNode).disconnect(this.sourceEffects.input);
+        this.releaseEffects();
+        effects.sources++;
+        this.sourceEffects = effects;
+        (this.fadeNode ?? this.gainNode).connect(effects.input);
+    }
+
+    /**
+     * Stops feeding the effect chain, destroying it if no other node shares it
+     */
+    private releaseEffects(): void {
+        const effects = this.sourceEffects;
+        if (--effects.sources == 0) {
+            effects.chain.destroy();
+            effects.input.disconnect();
+        }
+    }
+
+    /**
+     * Leaves an effect chain shared with a continuation once faded out, unless this node has been
+     * faded again since
+     * @param generation fade generation when fading out
+     */
+    private leaveEffects(generation: number): void {
+        if (this._isDestroyed || generation != this.fadeGeneration || this.sourceEffects.sources < 2) {
+            return;
+        }
+        this.releaseFade(generation);
+        this.gainNode.disconnect();
+        this.releaseEffects();
+        this.sourceEffects = AudioSourceNode.createEffects(this.audioContext);
+        this.gainNode.connect(this.sourceEffects.input);
+        this.hrtfPannerNode = null;
+    }
+
+    /**
+     * @returns the gain between the volume and the effects, inserted if needed
+     */
+    private fade(): GainNode {
+        this.fadeGeneration++;
+        if (!this.fadeNode) {
+            this.fadeNode = this.audioContext.createGain();
+            this.gainNode.disconnect(this.sourceEffects.input);
+            this.gainNode.connect(this.fadeNode);
+            this.fadeNode.connect(this.sourceEffects.input);
+        }
+        return this.fadeNode;
+    }
+
+    /**
+     * Removes the gain between the volume and the effects once a fade has completed, unless this
+     * node has been faded again since
+     * @param generation fade generation when the fade began
      */
-    public copyBufferTo(other: AudioSourceNode): void {
+    private releaseFade(generation: number): void {
+        if (this._isDestroyed || generation != this.fadeGeneration || !this.fadeNode) {
+            return;
+        }
+        this.gainNode.disconnect(this.fadeNode);
+        this.gainNode.connect(this.sourceEffects.input);
+        this.fadeNode.disconnect();
+        this.fadeNode = null;
+    }
+
+    /**
+     * Gives this buffer to a given AudioSourceNode.
+     *
+     * Implementation Notes:
+     * - By default the buffer is shared, not copied, so changes to the channel data of one node
+     *   are heard on both. If the buffer was loaded through a cache, the other node acquires its
+     *   own handle to it.
+     * - Pass `mutable = true` to give the other node its own copy of the buffer, which is safe
+     *   to change. This allocates as much memory as the buffer itself.
+     * @param other AudioSourceNode to give the buffer to
+     * @param mutable `true` to copy the buffer instead of sharing it
+     */
+    public copyBufferTo(other: AudioSourceNode, mutable: boolean = false): void {
         this.throwIfDestroyed();
         if (!this.buffer) {
             other.buffer = null;
             return;
         }
 
-        const bufferChannels = this.buffer.numberOfChannels;
-        const bufferClone = AudioSourceNode.cloneBuffer(this.buffer);
+        other.releaseBufferHandle();
+        if (mutable) {
+            other.applyBuffer(other.prepareBuffer(AudioSourceNode.cloneBuffer(this.buffer)));
+        } else {
+            other.bufferHandle = this.bufferHandle?.acquire() ?? null;
+            other.applyBuffer(other.prepareBuffer(this.buffer));
+        }
+    }
 
-        other.computeConnections(bufferChannels);
-        other.bufferHalfLength = AudioSourceNode.computeBufferHalfLength(bufferClone);
-        other.sourceNode.buffer = bufferClone;
+    /**
+     * Gives the playback settings of this node to a given AudioSourceNode: volume, stereo pan, loop
+     * region, playback rate and detune. Automations in progress are not copied, only their current
+     * values.
+     * @param other AudioSourceNode to give the settings to
+     */
+    public copySettingsTo(other: AudioSourceNode): void {
+        this.throwIfDestroyed();
+        other.throwIfDestroyed();
+        other.gainNode.gain.value = this.gainNode.gain.value;
+        other.stereoPannerNode.pan.value = this.stereoPannerNode.pan.value;
+        other.loop = this.loop;
+        other.loopStart = this.loopStart;
+        other.loopEnd = this.loopEnd;
+        other.playbackRate.value = this.playbackRate.value;
+        other.detune.value = this.detune.value;
+    }
+
+    /**
+     * Applies the `LOOPSTART` and `LOOPLENGTH` comments of the metadata as the loop region, unless
+     * the loop has already been set on this node.
+     */
+    private applyLoopMetadata(): void {
+        const metadata = this._metadata;
+        if (this.isLoopSet || !metadata?.sampleRate || metadata.loopStart == null) {
+            return;
+        }
+        this.sourceNode.loop = true;
+        this.sourceNode.loopStart = metadata.loopStart / metadata.sampleRate;
+        if (metadata.loopLength) {
+            this.sourceNode.loopEnd = (metadata.loopStart + metadata.loopLength) / metadata.sampleRate;
+        }
+        this.updatePlayheadLoop();
+    }
+
+    /**
+     * Sends the loop region of the source node to the playhead worklet, if used
+     */
+    private updatePlayheadLoop(): void {
+        this.playhead?.loop(this.sourceNode.loop, this.sourceNode.loopStart, this.sourceNode.loopEnd);
     }
 
     private static cloneBuffer(buffer: AudioBuffer): AudioBuffer {
@@ -175,6 +437,10 @@ class AudioSourceNode {
             numberOfChannels: bufferChannels,
         });
 
+        if (AudioSourceNode.TAG in buffer) {
+            (bufferClone as any)[AudioSourceNode.TAG] = true;
+        }
+
         for (let i = 0; i < bufferChannels; i++) {
             bufferClone.copyToChannel(buffer.getChannelData(i), i);
         }
@@ -190,7 +456,7 @@ class AudioSourceNode {
         inputIndex?: number,
     ): AudioNode | void {
         this.throwIfDestroyed();
-        const target = this.hrtfPannerNode ? this.hrtfPannerNode : this.gainNode;
+        const target = this.hrtfPannerNode ? this.hrtfPannerNode : this.sourceEffects.chain.output;
         if (destination instanceof AudioNode) {
             return target.connect(destination, outputIndex, inputIndex);
         } else if (destination instanceof AudioParam) {
@@ -215,7 +481,7 @@ class AudioSourceNode {
         input?: number,
     ): void {
         this.throwIfDestroyed();
-        const target = this.hrtfPannerNode ? this.hrtfPannerNode : this.gainNode;
+        const target = this.hrtfPannerNode ? this.hrtfPannerNode : this.sourceEffects.chain.output;
         if (outputOrNodeOrParam == undefined) {
             return target.disconnect();
         }
@@ -239,12 +505,108 @@ class AudioSourceNode {
         }
     }
 
-    async load(path: string): Promise<void> {
+    /**
+     * Loads the audio source directly from the file system, without any cache.
+     *
+     * If loading fails, an error event is dispatched and the returned promise rejects.
+     * @param path audio source path
+     * @param encryptionKey key to decrypt RPG Maker encrypted audio
+     * @param options retry and timeout behavior
+     */
+    load(path: string, encryptionKey?: string | null, options?: AudioLoadOptions): Promise<void>;
+    /**
+     * Loads the audio source through the cache. If the buffer is already in the cache, it is
+     * applied before this method returns, and the loaded event is dispatched immediately.
+     *
+     * If loading fails, an error event is dispatched and the returned promise rejects.
+     * @param path audio source path
+     * @param cache cache to load through, also used to decrypt RPG Maker encrypted audio
+     * @param useCache `false` to skip the cache and load directly from the file system
+     * @param options retry and timeout behavior
+     */
+    load(
+        path: string,
+        cache: AudioSourceCache,
+        useCache?: boolean,
+        options?: AudioLoadOptions,
+    ): Promise<void>;
+    async load(
+        path: string,
+        cacheOrKey?: AudioSourceCache | string | null,
+        useCacheOrOptions?: boolean | AudioLoadOptions,
+        options?: AudioLoadOptions,
+    ): Promise<void> {
         this.throwIfDestroyed();
         this.path = path;
-        const audioFile = await fetch(this.path);
-        const decodedBuffer = await this.audioContext.decodeAudioData(await audioFile.arrayBuffer());
+        this._isFailed = false;
+        this._loadError = null;
+
+        try {
+            if (typeof cacheOrKey == 'object' && cacheOrKey != null) {
+                await this.loadWithCache(path, cacheOrKey, useCacheOrOptions !== false, options);
+            } else {
+                const key = cacheOrKey ? parseEncryptionKey(cacheOrKey) : null;
+                await this.loadDirect(
+                    path,
+                    (data) => decryptAudio(data, key),
+                    typeof useCacheOrOptions == 'object' ? useCacheOrOptions : undefined,
+                );
+            }
+        } catch (err) {
+            // A newer load or destruction makes the failure irrelevant to listeners
+            if (this.path == path && !this._isDestroyed) {
+                this._isFailed = true;
+                this._loadError = err;
+                this.dispatchEvent(new EventError(this, this.audioContext.currentTime, err));
+            }
+            throw err;
+        }
+    }
+
+    private async loadWithCache(
+        path: string,
+        cache: AudioSourceCache,
+        useCache: boolean,
+        options?: AudioLoadOptions,
+    ): Promise<void> {
+        if (useCache) {
+            // Avoid awaiting when the buffer is cached, so that it is applied synchronously
+            const withPosition = !this.playhead;
+            const handle =
+                cache.acquire(path, withPosition) ?? (await cache.acquireAsync(path, options, withPosition));
+            if (this._isDestroyed) {
+                handle.release();
+                return;
+            }
+            this.releaseBufferHandle();
+            this.bufferHandle = handle;
+            this._metadata = cache.getMetadata(path);
+            this.applyBuffer(handle.buffer);
+            this.applyLoopMetadata();
+            this._isLoaded = true;
+            this.dispatchEvent(
+                new EventLoaded(this, this.audioContext.currentTime, cache.getAudio(path) ?? handle.buffer),
+            );
+            return;
+        }
+
+        await this.loadDirect(path, (data) => cache.decrypt(data), options);
+    }
+
+    private async loadDirect(
+        path: string,
+        decrypt: (data: ArrayBuffer) => ArrayBuffer,
+        options?: AudioLoadOptions,
+    ): Promise<void> {
+        const audioData = decrypt(await fetchAudioData(path, buildOptions(options, defaults.loadDefault)));
+        const metadata = parseOggMetadata(audioData);
+        const decodedBuffer = await this.audioContext.decodeAudioData(audioData);
+        if (this._isDestroyed) {
+            return;
+        }
+        this._metadata = metadata;
         this.buffer = decodedBuffer;
+        this.applyLoopMetadata();
         this._isLoaded = true;
         this.dispatchEvent(new EventLoaded(this, this.audioContext.currentTime, decodedBuffer));
     }
@@ -271,6 +633,20 @@ class AudioSourceNode {
         return this;
     }
 
+    /**
+     * The insert effects of this source, which process its audio after its volume and panning, and
+     * before an attached {@link HRTFPannerNode}.
+     *
+     * Tracks carry the effects over when they jump, seek or restart a playing source, see
+     * {@link continueAt}. Other clones have effect chains of their own.
+     *
+     * @returns the {@link EffectChain} of this source
+     */
+    get effects(): EffectChain {
+        this.throwIfDestroyed();
+        return this.sourceEffects.chain;
+    }
+
     /**
      * Attach an {@link HRTFPannerNode} to spatialize this {@link AudioSourceNode}. This will disconnect all current
      * outputs on this {@link AudioSourceNode} to prevent creating cycles. You must call `connect()` again in order to
@@ -291,7 +667,7 @@ class AudioSourceNode {
         }
 
         this.hrtfPannerNode = hrtfPannerNode;
-        this.hrtfPannerNode.connectSource(this.gainNode);
+        this.hrtfPannerNode.connectSource(this.sourceEffects.chain.output);
     }
 
     /**
@@ -324,7 +700,6 @@ class AudioSourceNode {
         }
 
         if (this._isStarted || this._isStopped) {
-            const buffer: AudioBuffer | null = this.sourceNode.buffer;
             this.sourceNode.onended = null;
             this.stop(when);
             this._isStopped = false;
@@ -336,15 +711,27 @@ class AudioSourceNode {
                         oldSourceNode.disconnect();
                         oldSourceNode.buffer = null;
                     },
-                    when && when > this.audioContext.currentTime
-                        ? 1000 * (this.audioContext.currentTime - when)
-                        : 0,
+                    1000 * (when - this.audioContext.currentTime),
                 );
             }
+            // Source nodes can only be started once, the replacement keeps the settings of the old one
             this.sourceNode = this.audioContext.createBufferSource();
-            this.sourceNode.buffer = buffer;
+            this.sourceNode.buffer = oldSourceNode.buffer;
+            this.sourceNode.loop = oldSourceNode.loop;
+            this.sourceNode.loopStart = oldSourceNode.loopStart;
+            this.sourceNode.loopEnd = oldSourceNode.loopEnd;
             this.sourceNode.onended = this.onEndedInternalCallback;
-            if (this.sourceNode.buffer && !this.splitter) {
+            if (this.playhead) {
+                // The playhead carries the playback rate and detune
+                this.playhead.connectSource(this.sourceNode);
+            } else {
+                this.sourceNode.playbackRate.value = oldSourceNode.playbackRate.value;
+                this.sourceNode.detune.value = oldSourceNode.detune.value;
+            }
+            this.updatePlayheadLoop();
+            if (this.sourceNode.buffer && this.positionChannels == 0) {
+                this.sourceNode.connect(this.stereoPannerNode);
+            } else if (this.sourceNode.buffer && !this.splitter) {
                 console.warn(
                     `An AudioSourceNode appears to be in an invalid state, as a buffer has been ` +
                         `loaded, and no internal splitter node has been constructed. ` +
@@ -360,12 +747,13 @@ class AudioSourceNode {
                 () => {
                     this._isEnded = false;
                 },
-                1000 * (this.audioContext.currentTime - when),
+                1000 * (when - this.audioContext.currentTime),
             );
         } else {
             this._isEnded = false;
         }
         this._isStarted = true;
+        this.playhead?.start(when, offset, duration);
         return this.sourceNode.start(when, offset, duration);
     }
 
@@ -373,6 +761,7 @@ class AudioSourceNode {
         this.throwIfDestroyed();
         if (this._isStarted) {
             this._isStopped = true;
+            this.playhead?.stop(when);
             return this.sourceNode.stop(when);
         }
     }
@@ -388,7 +777,7 @@ class AudioSourceNode {
         if (this.buffer == null) {
             return -1;
         }
-        const sampleIndex = this.positionSample();
+        const sampleIndex = this.bufferSample();
         if (sampleIndex == -1) {
             return sampleIndex;
         }
@@ -396,8 +785,9 @@ class AudioSourceNode {
     }
 
     /**
-     * Retrieve the buffer sample index, represented by the internal position track.
-     * See [playhead position][1].
+     * Retrieve the sample index of the [playhead position][1] in the original file. This differs
+     * from the index in the buffer when the file was resampled to the rate of the AudioContext,
+     * see {@link fileSampleRate}.
      *
      * A value of -1 is returned in these conditions:
      *   - The source is not playing
@@ -407,9 +797,27 @@ class AudioSourceNode {
      */
     public positionSample(): number {
         this.throwIfDestroyed();
+        const sampleIndex = this.bufferSample();
+        if (sampleIndex == -1 || !this.buffer) {
+            return -1;
+        }
+        return Math.floor((sampleIndex * this.fileSampleRate) / this.buffer.sampleRate);
+    }
+
+    /**
+     * Retrieve the buffer sample index, represented by the internal position track or the
+     * playhead worklet.
+     */
+    private bufferSample(): number {
         if (this.bufferHalfLength == null || this._isEnded) {
             return -1;
         }
+        if (this.playhead) {
+            return this.buffer ? this.playhead.positionSample() : -1;
+        }
+        if (this.positionChannels == 2) {
+            return this.readCoarsePosition();
+        }
         this.analyser.getFloatTimeDomainData(this.positionContainer);
         const index = this.positionContainer[0];
         if (index == undefined) {
@@ -418,6 +826,40 @@ class AudioSourceNode {
         return index + this.bufferHalfLength;
     }
 
+    /**
+     * Combines the coarse and fine position channels into the sample index. The channels are read
+     * one after another, which is okay as long as the playhead moves less than half the fine
+     * modulus in between.
+     */
+    private readCoarsePosition(): number {
+        this.coarseAnalyser!.getFloatTimeDomainData(this.coarsePositionContainer);
+        this.analyser.getFloatTimeDomainData(this.positionContainer);
+        const coarse = this.coarsePositionContainer[0];
+        const fine = this.positionContainer[0];
+        if (coarse == undefined || fine == undefined) {
+            return -1;
+        }
+        return AudioSourceNode.combinePositionChannels(coarse, fine);
+    }
+
+    /**
+     * Combines values of the coarse and fine position channels into the sample index, which is the
+     * index matching the fine value nearest to the coarse value.
+     * @param coarse value of the coarse channel, the sample index as a 32 bit float
+     * @param fine value of the fine channel, the sample index modulo the fine modulus
+     * @returns the sample index
+     */
+    public static combinePositionChannels(coarse: number, fine: number): number {
+        const modulus = AudioSourceNode.FINE_POSITION_MODULUS;
+        let difference = (fine - coarse) % modulus;
+        if (difference < -modulus / 2) {
+            difference += modulus;
+        } else if (difference >= modulus / 2) {
+            difference -= modulus;
+        }
+        return coarse + difference;
+    }
+
     /**
      * Due to the nature of event timers, this can return `true` after a source has ended.
      * The recommendation is to check `isEnded()` inside a setTimer() with no delay, and
@@ -460,6 +902,30 @@ class AudioSourceNode {
         return this._isLoaded;
     }
 
+    /**
+     * The error event has already been dispatched for a source which failed to load, so check this
+     * before waiting for it. Reset when {@link load()} is called again.
+     * @returns `true` if the most recent call to {@link load()} failed
+     */
+    get isFailed() {
+        return this._isFailed;
+    }
+
+    /**
+     * @returns the error of the most recent call to {@link load()}, `null` if it has not failed
+     */
+    get loadError(): unknown {
+        return this._loadError;
+    }
+
+    /**
+     * @returns the {@link OggMetadata} read when loading, `null` if the source was not loaded from
+     * an Ogg Vorbis file
+     */
+    get metadata(): OggMetadata | null {
+        return this._metadata;
+    }
+
     /**
      * @returns `true` if this AudioSourceNode has been destroyed
      */
@@ -495,6 +961,24 @@ class AudioSourceNode {
         }
     }
 
+    get onerror(): null | ((this: AudioSourceNode, event: EventError) => void) {
+        this.throwIfDestroyed();
+        return this.onErrorListeners[0]?.handleEvent ?? null;
+    }
+
+    set onerror(listener: null | ((this: AudioSourceNode, event: EventError) => void)) {
+        this.throwIfDestroyed();
+        if (listener == null || listener == undefined) {
+            this.onErrorListeners = [];
+        } else if (typeof listener == 'function') {
+            this.onErrorListeners = [AudioSourceNode._makeListener(listener, { capture: false })];
+        }
+    }
+
+    /**
+     * The buffer with the position channel. It may be shared with clones and other sources of the
+     * same cached audio, use {@link copyBufferTo} with `mutable = true` to get a copy to change.
+     */
     get buffer(): AudioBuffer | null {
         this.throwIfDestroyed();
         return this.sourceNode.buffer;
@@ -502,10 +986,44 @@ class AudioSourceNode {
 
     set buffer(buffer: AudioBuffer | null) {
         this.throwIfDestroyed();
-        const computedBuffer = AudioSourceNode.computeBufferWithPositionChannel(buffer);
+        if (buffer && buffer == this.bufferHandle?.buffer) {
+            return;
+        }
+        this.releaseBufferHandle();
+        this.applyBuffer(this.prepareBuffer(buffer));
+    }
+
+    /**
+     * Adds the position channel to a buffer, unless the playhead worklet is used instead
+     * @param buffer buffer to prepare
+     * @returns a buffer ready for {@link applyBuffer}
+     */
+    private prepareBuffer(buffer: AudioBuffer | null): AudioBuffer | null {
+        return this.playhead ? buffer : AudioSourceNode.computeBufferWithPositionChannel(buffer);
+    }
+
+    /**
+     * Uses a buffer which already has the position channel, or any buffer when the playhead
+     * worklet is used. The position channels of a buffer are never output.
+     * @param computedBuffer buffer with a position channel
+     */
+    private applyBuffer(computedBuffer: AudioBuffer | null): void {
+        this.positionChannels =
+            computedBuffer && AudioSourceNode.TAG in computedBuffer
+                ? AudioSourceNode.computePositionChannels(computedBuffer.length)
+                : 0;
         this.computeConnections(computedBuffer?.numberOfChannels ?? 0);
         this.bufferHalfLength = AudioSourceNode.computeBufferHalfLength(computedBuffer);
         this.sourceNode.buffer = computedBuffer;
+        this.playhead?.setBuffer(computedBuffer);
+    }
+
+    /**
+     * Releases the cache handle of the current buffer, if it was loaded through a cache
+     */
+    private releaseBufferHandle(): void {
+        this.bufferHandle?.release();
+        this.bufferHandle = null;
     }
 
     /**
@@ -523,6 +1041,15 @@ class AudioSourceNode {
         return Math.floor((buffer?.length ?? 0) / 2);
     }
 
+    /**
+     * Number of position channels used for a buffer of the given length. Like the half-length,
+     * this is derived from the buffer so that shared buffers are always read the same way.
+     * @param length buffer length in samples
+     */
+    private static computePositionChannels(length: number): number {
+        return length > AudioSourceNode.MAX_SINGLE_POSITION_LENGTH ? 2 : 1;
+    }
+
     /**
      * Custom buffer computation to support reading [playhead position][1] from the source node,
      * which is currently unsupported by Web Audio API (but maybe someday it'll be exposed).
@@ -530,10 +1057,16 @@ class AudioSourceNode {
      * See [first unrepresentable IEEE 754 integer][2] for the reasoning behind using a
      * pigeon hole type implementation.
      *
+     * Buffers longer than 2^25 samples get a coarse and a fine position channel instead, see the
+     * class description.
+     *
+     * Buffers that already have the position channel are returned as is, so they can be shared
+     * between sources.
+     *
      * [1]: <https://webaudio.github.io/web-audio-api/#playhead-position> "Playhead Position"
      * [2]: <https://stackoverflow.com/a/3793950/4561008> "First unrepresentable IEEE 754 integer"
      */
-    private static computeBufferWithPositionChannel(buffer: AudioBuffer | null): AudioBuffer | null {
+    public static computeBufferWithPositionChannel(buffer: AudioBuffer | null): AudioBuffer | null {
         // Credit to @kurtsmurf for the original implementation, @p-himik for the POC, and @selimachour for the concept
         if (!buffer) {
             return null;
@@ -545,10 +1078,11 @@ class AudioSourceNode {
 
         const bufferLength = buffer.length;
         const bufferChannels = buffer.numberOfChannels;
+        const positionChannels = AudioSourceNode.computePositionChannels(bufferLength);
         const trackedBuffer = new AudioBuffer({
             length: bufferLength,
             sampleRate: buffer.sampleRate,
-            numberOfChannels: bufferChannels + 1, // extra channel for tracking time
+            numberOfChannels: bufferChannels + positionChannels, // extra channels for tracking time
         });
 
         (trackedBuffer as any)[AudioSourceNode.TAG] = true;
@@ -557,6 +1091,18 @@ class AudioSourceNode {
             trackedBuffer.copyToChannel(buffer.getChannelData(i), i);
         }
 
+        if (positionChannels == 2) {
+            const coarseArray = new Float32Array(bufferLength);
+            const fineArray = new Float32Array(bufferLength);
+            for (let i = 0; i < bufferLength; i++) {
+                coarseArray[i] = i;
+                fineArray[i] = i % AudioSourceNode.FINE_POSITION_MODULUS;
+            }
+            trackedBuffer.copyToChannel(coarseArray, bufferChannels);
+            trackedBuffer.copyToChannel(fineArray, bufferChannels + 1);
+            return trackedBuffer;
+        }
+
         // Credit to @westarne for this improvement
         const trackedArray = new Float32Array(bufferLength);
         const halfBufferLength = AudioSourceNode.computeBufferHalfLength(trackedBuffer);
@@ -570,8 +1116,9 @@ class AudioSourceNode {
     /**
      * Constructs the internal audio graph for this AudioSourceNode based on the number of channels
      * provided. The splitter will construct with `bufferChannels` channel outputs, where the last
-     * channel is presumed to be the position channel. The merge node, if required, will construct
-     * with `bufferChannels - 1` channel inputs, so that the position channel is not output
+     * `positionChannels` channels are presumed to be the position channels. The merge node, if
+     * required, will construct with the remaining channel inputs, so that the position channels
+     * are not output
      * @param bufferChannels number of channels to initialize
      */
     private computeConnections(bufferChannels: number) {
@@ -585,9 +1132,12 @@ class AudioSourceNode {
             this.merger.disconnect();
         }
 
-        if (!bufferChannels) {
+        if (!bufferChannels || !this.positionChannels) {
             this.splitter = undefined;
             this.merger = undefined;
+            if (bufferChannels) {
+                this.sourceNode.connect(this.stereoPannerNode);
+            }
             return;
         }
 
@@ -596,9 +1146,15 @@ class AudioSourceNode {
         }
         this.sourceNode.connect(this.splitter);
         this.splitter.connect(this.analyser, bufferChannels - 1, 0);
+        if (this.positionChannels == 2) {
+            if (!this.coarseAnalyser) {
+                this.coarseAnalyser = this.audioContext.createAnalyser();
+            }
+            this.splitter.connect(this.coarseAnalyser, bufferChannels - 2, 0);
+        }
 
         // We do not create a merger unless we actually need one
-        const outputChannels = bufferChannels - 1;
+        const outputChannels = bufferChannels - this.positionChannels;
         if (outputChannels < 2) {
             this.merger = undefined;
             this.splitter.connect(this.stereoPannerNode, 0, 0);
@@ -630,6 +1186,7 @@ class AudioSourceNode {
      */
     public destroy(): void {
         this._isDestroyed = true;
+        this.releaseBufferHandle();
         // this.owner = null; // Deliberately retain the owner reference, so users can know what object should be responsible
         if (this.sourceNode) {
             try {
@@ -644,6 +1201,14 @@ class AudioSourceNode {
             this.gainNode.disconnect();
             (this.gainNode as any) = undefined;
         }
+        if (this.fadeNode) {
+            this.fadeNode.disconnect();
+            this.fadeNode = null;
+        }
+        if (this.sourceEffects) {
+            this.releaseEffects();
+            (this.sourceEffects as any) = undefined;
+        }
         if (this.stereoPannerNode) {
             this.stereoPannerNode.disconnect();
             (this.stereoPannerNode as any) = undefined;
@@ -654,6 +1219,11 @@ class AudioSourceNode {
         if (this.analyser) {
             (this.analyser as any) = undefined;
         }
+        this.coarseAnalyser = undefined;
+        if (this.playhead) {
+            this.playhead.destroy();
+            (this.playhead as any) = undefined;
+        }
         if (this.merger) {
             this.merger.disconnect();
             (this.merger as any) = undefined;
@@ -666,7 +1236,7 @@ class AudioSourceNode {
 
     get detune() {
         this.throwIfDestroyed();
-        return this.sourceNode.detune;
+        return this.playhead?.detune ?? this.sourceNode.detune;
     }
 
     get loop(): boolean {
@@ -676,7 +1246,9 @@ class AudioSourceNode {
 
     set loop(value: boolean) {
         this.throwIfDestroyed();
+        this.isLoopSet = true;
         this.sourceNode.loop = value;
+        this.updatePlayheadLoop();
     }
 
     get loopStart(): number {
@@ -686,7 +1258,9 @@ class AudioSourceNode {
 
     set loopStart(seconds: number) {
         this.throwIfDestroyed();
+        this.isLoopSet = true;
         this.sourceNode.loopStart = seconds;
+        this.updatePlayheadLoop();
     }
 
     get loopEnd(): number {
@@ -696,12 +1270,14 @@ class AudioSourceNode {
 
     set loopEnd(seconds: number) {
         this.throwIfDestroyed();
+        this.isLoopSet = true;
         this.sourceNode.loopEnd = seconds;
+        this.updatePlayheadLoop();
     }
 
     get playbackRate(): AudioParam {
         this.throwIfDestroyed();
-        return this.sourceNode.playbackRate;
+        return this.playhead?.playbackRate ?? this.sourceNode.playbackRate;
     }
 
     /**
@@ -712,6 +1288,21 @@ class AudioSourceNode {
         return this.sourceNode.buffer?.sampleRate ?? -1;
     }
 
+    /**
+     * Sample rate of the loaded file, before it was resampled to the rate of the AudioContext.
+     * Sample numbers authored for the file, such as loop points, are counted at this rate.
+     *
+     * This is read from the Ogg Vorbis headers, other files are assumed to have the rate of the
+     * buffer. -1 if there is no set buffer
+     */
+    get fileSampleRate(): number {
+        this.throwIfDestroyed();
+        if (!this.sourceNode.buffer) {
+            return -1;
+        }
+        return this._metadata?.sampleRate || this.sourceNode.buffer.sampleRate;
+    }
+
     get context(): AudioContext {
         this.throwIfDestroyed();
         return this.audioContext;
@@ -742,8 +1333,13 @@ class AudioSourceNode {
         listener: (this: AudioSourceNode, event: E) => void,
         options?: boolean | AddEventListenerOptions,
     ): void;
+    addEventListener<E extends EventError>(
+        type: 'error',
+        listener: (this: AudioSourceNode, event: E) => void,
+        options?: boolean | AddEventListenerOptions,
+    ): void;
     addEventListener(
-        type: 'ended' | 'loaded',
+        type: 'ended' | 'loaded' | 'error',
         listener: (this: AudioSourceNode, event: AudioSourceNodeEvent) => void,
         options?: boolean | AddEventListenerOptions,
     ): void {
@@ -759,6 +1355,10 @@ class AudioSourceNode {
                 listenerList = this.onLoadedListeners;
                 break;
             }
+            case 'error': {
+                listenerList = this.onErrorListeners;
+                break;
+            }
             default: {
                 return;
             }
@@ -792,7 +1392,7 @@ class AudioSourceNode {
     }
 
     removeEventListener(
-        type: 'ended' | 'loaded',
+        type: 'ended' | 'loaded' | 'error',
         listener: (this: AudioSourceNode, event: AudioSourceNodeEvent) => void,
         options?: boolean | EventListenerOptions,
     ): void {
@@ -808,6 +1408,10 @@ class AudioSourceNode {
                 listenerList = this.onLoadedListeners;
                 break;
             }
+            case 'error': {
+                listenerList = this.onErrorListeners;
+                break;
+            }
             default: {
                 return;
             }
@@ -839,6 +1443,8 @@ class AudioSourceNode {
             listenerList = this.onEndedListeners;
         } else if (event.type == 'loaded') {
             listenerList = this.onLoadedListeners;
+        } else if (event.type == 'error') {
+            listenerList = this.onErrorListeners;
         } else {
             return false;
         }
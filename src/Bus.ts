@@ -0,0 +1,122 @@
+import automation, { AudioAdjustmentOptions } from './automation.js';
+import buildOptions from './defaults.js';
+import * as defaults from './defaults.js';
+
+/**
+ * An aux bus, created by {@link Mixer#newBus}. Tracks send to the bus with {@link Track#send}, and
+ * the bus processes the sum of their sends with a shared effect, such as a reverb or delay, before
+ * routing it to the master volume of the Mixer.
+ */
+class Bus {
+    /**
+     * Sum of the sends to this bus
+     */
+    private readonly inputNode: GainNode;
+
+    /**
+     * The return volume of the bus, it is exposed for automation
+     */
+    private readonly gainNode: GainNode;
+
+    private effectInput: AudioNode | null = null;
+    private effectOutput: AudioNode | null = null;
+
+    /**
+     * @param name name of the bus
+     * @param audioContext
+     * @param destination node to which the bus is routed, the master volume of the Mixer
+     */
+    constructor(
+        private readonly name: string,
+        private readonly audioContext: AudioContext,
+        destination: AudioNode,
+    ) {
+        this.inputNode = audioContext.createGain();
+        this.gainNode = audioContext.createGain();
+        this.inputNode.connect(this.gainNode);
+        this.gainNode.connect(destination);
+    }
+
+    public toString(): string {
+        return `Bus[${this.name}] with context ${this.audioContext}`;
+    }
+
+    /**
+     * The node which receives the sends of tracks. Advanced users only!
+     */
+    get input(): AudioNode {
+        return this.inputNode;
+    }
+
+    /**
+     * Allows receiving the final output of the Bus. Advanced users only!
+     *
+     * @param destination the {@link AudioNode} or {@link AudioParam} to which to connect
+     * @param outputIndex the output index to use, should be 0
+     * @param inputIndex the input index into the {@link AudioNode} or {@link AudioParam}
+     */
+    public connect(destination: AudioNode, outputIndex?: number, inputIndex?: number): AudioNode;
+    public connect(destination: AudioParam, outputIndex?: number): void;
+    public connect(
+        destination: AudioNode | AudioParam,
+        outputIndex?: number,
+        inputIndex?: number,
+    ): AudioNode | void {
+        if (destination instanceof AudioNode) {
+            return this.gainNode.connect(destination, outputIndex, inputIndex);
+        } else if (destination instanceof AudioParam) {
+            return this.gainNode.connect(destination, outputIndex);
+        } else {
+            console.warn(
+                `Cannot connect to type ${(destination as any)?.constructor?.name}. This is likely a mistake.`,
+            );
+        }
+    }
+
+    /**
+     * Set the effect which processes the sends to this bus. For an effect made of several nodes,
+     * provide the first and last node of the effect, which must already be connected to each other.
+     *
+     * @param input node receiving the sends, such as a ConvolverNode, `null` to remove the effect
+     * @param output node sending the result to the bus volume, defaults to `input`
+     * @returns {Bus} this Bus
+     */
+    public effect(input: AudioNode | null, output?: AudioNode): Bus {
+        if (this.effectInput) {
+            this.inputNode.disconnect(this.effectInput);
+            this.effectOutput!.disconnect(this.gainNode);
+        } else {
+            this.inputNode.disconnect(this.gainNode);
+        }
+
+        this.effectInput = input;
+        this.effectOutput = input ? (output ?? input) : null;
+
+        if (this.effectInput) {
+            this.inputNode.connect(this.effectInput);
+            this.effectOutput!.connect(this.gainNode);
+        } else {
+            this.inputNode.connect(this.gainNode);
+        }
+        return this;
+    }
+
+    /**
+     * Set the return volume of this bus
+     *
+     * @param volume gain multiplier
+     * @param options adjustment parameters
+     * @returns {Bus} this Bus
+     */
+    public volume(volume: number, options?: AudioAdjustmentOptions): Bus {
+        automation(
+            this.audioContext,
+            this.gainNode.gain,
+            volume,
+            buildOptions(options, defaults.automationDefault),
+        );
+        return this;
+    }
+}
+
+export default Bus;
@@ -0,0 +1,335 @@
+import automation, { AudioAdjustmentOptions } from './automation.js';
+import buildOptions from './defaults.js';
+import * as defaults from './defaults.js';
+
+/**
+ * Milliseconds to wait after a crossfade before rewiring, so the crossfade has completed on the audio
+ * thread
+ */
+const FADE_MARGIN = 20;
+
+/**
+ * An insert effect, either a single node such as a BiquadFilterNode, or the first and last node of
+ * an effect made of several nodes, which must already be connected to each other.
+ */
+export type Effect = AudioNode | { input: AudioNode; output: AudioNode };
+
+/**
+ * An ordered chain of insert effects, processing the audio of a source, track, group or mixer in place.
+ *
+ * Every change to the chain crossfades between the unprocessed and processed audio of the effect, so
+ * effects can be added, removed, reordered and bypassed during playback without clicking. Effects
+ * being removed or moved finish their crossfade before the chain is rewired.
+ */
+class EffectChain {
+    /**
+     * Output of the chain, after the last effect
+     */
+    private readonly outputNode: GainNode;
+
+    /**
+     * Slots in the order they are wired, including slots that are fading out to be removed
+     */
+    private slots: EffectSlot[] = [];
+
+    /**
+     * Node that `input` is currently connected to
+     */
+    private head: AudioNode;
+
+    /**
+     * @param audioContext
+     * @param input node feeding the chain, owned by the caller. The chain manages its outputs.
+     */
+    constructor(
+        private readonly audioContext: AudioContext,
+        private readonly input: AudioNode,
+    ) {
+        this.outputNode = audioContext.createGain();
+        this.input.connect(this.outputNode);
+        this.head = this.outputNode;
+    }
+
+    /**
+     * The node after the last effect. Advanced users only!
+     */
+    get output(): AudioNode {
+        return this.outputNode;
+    }
+
+    /**
+     * @returns the effects of this chain, in order
+     */
+    get effects(): Effect[] {
+        return this.visibleSlots().map((slot) => slot.effect);
+    }
+
+    /**
+     * @param effect effect to check
+     * @returns `true` if the effect is in this chain
+     */
+    public has(effect: Effect): boolean {
+        return this.visibleSlots().some((slot) => slot.effect === effect);
+    }
+
+    /**
+     * @param effect effect to check
+     * @returns `true` if the effect is in this chain and bypassed
+     */
+    public isBypassed(effect: Effect): boolean {
+        return this.visibleSlots().some((slot) => slot.effect === effect && slot.bypassed);
+    }
+
+    /**
+     * Add an effect to the chain, fading it in.
+     *
+     * @param effect effect to add
+     * @param index position in the chain, defaults to the end
+     * @param options adjustment parameters of the crossfade
+     * @returns {EffectChain} this EffectChain
+     */
+    public add(effect: Effect, index?: number, options?: AudioAdjustmentOptions): EffectChain {
+        const existing = this.slots.find((slot) => slot.effect === effect);
+        if (existing && !existing.isRemoving) {
+            console.warn('Cannot add an effect which is already in the chain. This is likely a mistake.');
+            return this;
+        }
+
+        // Still wired while fading out to be removed, so fade it back in where it is
+        if (existing) {
+            existing.generation++;
+            existing.isRemoving = false;
+            existing.bypassed = false;
+            if (index != undefined) {
+                return this.move(effect, index, options);
+            }
+            existing.fade(true, buildOptions(options, defaults.effectCrossfade));
+            return this;
+        }
+
+        const slot = new EffectSlot(this.audioContext, effect);
+        this.insertSlot(slot, index);
+        this.connectSlots();
+        slot.fade(true, buildOptions(options, defaults.effectCrossfade));
+        return this;
+    }
+
+    /**
+     * Remove an effect from the chain, fading it out before it is disconnected.
+     *
+     * @param effect effect to remove
+     * @param options adjustment parameters of the crossfade
+     * @returns {EffectChain} this EffectChain
+     */
+    public remove(effect: Effect, options?: AudioAdjustmentOptions): EffectChain {
+        const slot = this.findSlot(effect);
+        if (!slot) {
+            return this;
+        }
+
+        const adjustment = buildOptions(options, defaults.effectCrossfade);
+        const generation = ++slot.generation;
+        slot.isRemoving = true;
+        slot.isMoving = false;
+        slot.fade(false, adjustment);
+        this.afterFade(adjustment, () => {
+            if (slot.generation != generation) {
+                return;
+            }
+            this.slots = this.slots.filter((other) => other !== slot);
+            this.connectSlots();
+            slot.destroy();
+        });
+        return this;
+    }
+
+    /**
+     * Move an effect to a new position in the chain. The effect fades out, moves, and fades back in.
+     *
+     * @param effect effect to move
+     * @param index new position in the chain
+     * @param options adjustment parameters of each crossfade
+     * @returns {EffectChain} this EffectChain
+     */
+    public move(effect: Effect, index: number, options?: AudioAdjustmentOptions): EffectChain {
+        const slot = this.findSlot(effect);
+        if (!slot) {
+            return this;
+        }
+
+        const adjustment = buildOptions(options, defaults.effectCrossfade);
+        const generation = ++slot.generation;
+        slot.isMoving = true;
+        slot.fade(false, adjustment);
+        this.afterFade(adjustment, () => {
+            if (slot.generation != generation) {
+                return;
+            }
+            slot.isMoving = false;
+            this.slots = this.slots.filter((other) => other !== slot);
+            this.insertSlot(slot, index);
+            this.connectSlots();
+            if (!slot.bypassed) {
+                slot.fade(true, { ...adjustment, delay: 0 });
+            }
+        });
+        return this;
+    }
+
+    /**
+     * Bypass an effect, passing the audio through it unprocessed, or enable it again.
+     *
+     * @param effect effect to bypass
+     * @param bypassed `true` to bypass the effect
+     * @param options adjustment parameters of the crossfade
+     * @returns {EffectChain} this EffectChain
+     */
+    public bypass(effect: Effect, bypassed: boolean, options?: AudioAdjustmentOptions): EffectChain {
+        const slot = this.findSlot(effect);
+        if (!slot || slot.bypassed == bypassed) {
+            return this;
+        }
+
+        slot.bypassed = bypassed;
+        // A moving slot fades back in once it has moved, unless bypassed
+        if (!slot.isMoving) {
+            slot.fade(!bypassed, buildOptions(options, defaults.effectCrossfade));
+        }
+        return this;
+    }
+
+    /**
+     * Automate a parameter of an effect in this chain, such as the frequency of a filter.
+     *
+     * @param param parameter to automate
+     * @param value value to automate towards
+     * @param options adjustment parameters
+     * @returns {EffectChain} this EffectChain
+     */
+    public automate(param: AudioParam, value: number, options?: AudioAdjustmentOptions): EffectChain {
+        automation(this.audioContext, param, value, buildOptions(options, defaults.automationDefault));
+        return this;
+    }
+
+    /**
+     * Disconnects all effects from the chain immediately. The chain must not be used afterwards.
+     */
+    public destroy(): void {
+        this.input.disconnect(this.head);
+        this.slots.forEach((slot) => {
+            slot.generation++;
+            slot.destroy();
+        });
+        this.slots = [];
+        this.outputNode.disconnect();
+    }
+
+    private visibleSlots(): EffectSlot[] {
+        return this.slots.filter((slot) => !slot.isRemoving);
+    }
+
+    private findSlot(effect: Effect): EffectSlot | undefined {
+        const slot = this.visibleSlots().find((slot) => slot.effect === effect);
+        if (!slot) {
+            console.warn('Cannot find the effect in the chain. This is likely a mistake.');
+        }
+        return slot;
+    }
+
+    /**
+     * Inserts a slot before the visible slot at `index`, or at the end
+     */
+    private insertSlot(slot: EffectSlot, index?: number): void {
+        const before = index == undefined ? undefined : this.visibleSlots()[Math.max(0, index)];
+        const position = before ? this.slots.indexOf(before) : this.slots.length;
+        this.slots.splice(position, 0, slot);
+    }
+
+    /**
+     * Wires the slots in order. Slots only pass audio through while fully unprocessed, so rewiring
+     * the chain does not change what is heard.
+     */
+    private connectSlots(): void {
+        this.input.disconnect(this.head);
+        this.slots.forEach((slot) => slot.output.disconnect());
+
+        this.head = this.slots[0]?.input ?? this.outputNode;
+        this.input.connect(this.head);
+        this.slots.forEach((slot, i) => slot.output.connect(this.slots[i + 1]?.input ?? this.outputNode));
+    }
+
+    /**
+     * Calls `callback` once an adjustment has completed
+     */
+    private afterFade(adjustment: Required<AudioAdjustmentOptions>, callback: () => void): void {
+        setTimeout(callback, (adjustment.delay + adjustment.duration) * 1000 + FADE_MARGIN);
+    }
+}
+
+export default EffectChain;
+
+// #region EffectSlot
+/**
+ * Wraps an effect in the chain with a crossfade between its unprocessed (dry) and processed (wet)
+ * audio. New slots are fully dry.
+ */
+class EffectSlot {
+    readonly input: GainNode;
+    readonly output: GainNode;
+    private readonly dry: GainNode;
+    private readonly wet: GainNode;
+
+    public bypassed: boolean = false;
+    public isRemoving: boolean = false;
+    public isMoving: boolean = false;
+
+    /**
+     * Incremented by every operation on the slot, so that a delayed rewire can tell whether it was
+     * superseded
+     */
+    public generation: number = 0;
+
+    constructor(
+        private readonly audioContext: AudioContext,
+        readonly effect: Effect,
+    ) {
+        this.input = audioContext.createGain();
+        this.output = audioContext.createGain();
+        this.dry = audioContext.createGain();
+        this.wet = audioContext.createGain();
+        this.wet.gain.value = 0;
+
+        this.input.connect(this.dry);
+        this.dry.connect(this.output);
+        this.input.connect(EffectSlot.effectInput(effect));
+        EffectSlot.effectOutput(effect).connect(this.wet);
+        this.wet.connect(this.output);
+    }
+
+    /**
+     * Crossfades to the processed audio of the effect, or back to the unprocessed audio
+     * @param wet `true` to fade to the processed audio
+     * @param adjustment adjustment parameters of the crossfade
+     */
+    public fade(wet: boolean, adjustment: Required<AudioAdjustmentOptions>): void {
+        automation(this.audioContext, this.wet.gain, wet ? 1 : 0, adjustment);
+        automation(this.audioContext, this.dry.gain, wet ? 0 : 1, adjustment);
+    }
+
+    public destroy(): void {
+        this.input.disconnect();
+        EffectSlot.effectOutput(this.effect).disconnect(this.wet);
+        this.dry.disconnect();
+        this.wet.disconnect();
+        this.output.disconnect();
+    }
+
+    private static effectInput(effect: Effect): AudioNode {
+        return effect instanceof AudioNode ? effect : effect.input;
+    }
+
+    private static effectOutput(effect: Effect): AudioNode {
+        return effect instanceof AudioNode ? effect : effect.output;
+    }
+}
+// #endregion EffectSlot
@@ -0,0 +1,112 @@
+/**
+ * Handle returned when listening for an event, used to stop listening
+ */
+export type ListenerHandle<E extends string> = {
+    readonly type: E;
+
+    /**
+     * `true` after `remove()` has been called
+     */
+    readonly isRemoved: boolean;
+
+    /**
+     * Stops the callback from receiving further events. It is okay to call this multiple times.
+     */
+    remove(): void;
+};
+
+/**
+ * Callback signatures for each event type of a registry. The first argument of every callback is
+ * the object emitting the event.
+ */
+type EventCallbacks = { [type: string]: (target: any, ...args: any[]) => any };
+
+/**
+ * Arguments of an event following the object emitting it
+ */
+type EventArgs<C extends EventCallbacks, T extends keyof C> = C[T] extends (
+    target: any,
+    ...args: infer A
+) => any
+    ? A
+    : never;
+
+/**
+ * Listener registry for the events of tracks, queues and caches. Events emitted on a registry are
+ * also emitted on its parent, which is how groups receive the events of their tracks.
+ */
+class EventRegistry<C extends EventCallbacks> {
+    private listeners: { [T in keyof C]?: { callback: C[T] }[] } = {};
+
+    /**
+     * @param parent registry which receives every event emitted on this registry
+     */
+    constructor(private readonly parent: EventRegistry<C> | null = null) {}
+
+    /**
+     * Adds a callback for the event type
+     * @param type event type
+     * @param callback callback for the event
+     * @returns a handle to remove the callback
+     */
+    public listen<T extends keyof C & string>(type: T, callback: C[T]): ListenerHandle<T> {
+        if (typeof callback != 'function') {
+            throw new TypeError(`Cannot listen for "${type}" with a callback that is not a function.`);
+        }
+
+        const listener = { callback };
+        const listenerList = (this.listeners[type] ??= []) as { callback: C[T] }[];
+        listenerList.push(listener);
+
+        let isRemoved = false;
+        return {
+            type,
+            get isRemoved() {
+                return isRemoved;
+            },
+            remove() {
+                isRemoved = true;
+                const index = listenerList.indexOf(listener);
+                if (index != -1) {
+                    listenerList.splice(index, 1);
+                }
+            },
+        };
+    }
+
+    /**
+     * @param type event type
+     * @returns `true` if there are any callbacks for the event type, including on the parent
+     */
+    public has(type: keyof C): boolean {
+        return !!this.listeners[type]?.length || (this.parent?.has(type) ?? false);
+    }
+
+    /**
+     * Calls every callback for the event type, then emits the event on the parent. Exceptions thrown
+     * by callbacks are logged, so that every callback is called.
+     * @param target the object emitting the event
+     * @param type event type
+     * @param args event arguments following the target
+     */
+    public emit<T extends keyof C & string>(
+        target: Parameters<C[T]>[0],
+        type: T,
+        ...args: EventArgs<C, T>
+    ): void {
+        const listenerList = this.listeners[type];
+        if (listenerList?.length) {
+            for (const listener of [...listenerList]) {
+                try {
+                    listener.callback(target, ...args);
+                } catch (err) {
+                    console.error(`An exception occurred during '${type}' event handling on ${target}:`);
+                    console.error(err);
+                }
+            }
+        }
+        this.parent?.emit(target, type, ...args);
+    }
+}
+
+export default EventRegistry;
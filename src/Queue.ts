@@ -0,0 +1,501 @@
+import { AudioLoadState, AudioSourceCache } from './AudioSourceCache.js';
+import { Track, TrackEventType, TrackListener, TrackSwapAdvancedOptions, TrackSwapOptions } from './Track.js';
+import { AudioAdjustmentOptions } from './automation.js';
+import EventRegistry, { ListenerHandle } from './EventRegistry.js';
+import buildOptions from './defaults.js';
+import * as defaults from './defaults.js';
+import { isPlayheadWorkletLoaded } from './playhead.js';
+
+export enum QueueRepeatType {
+    /**
+     * Playback ends after the last entry
+     */
+    NONE = 'none',
+
+    /**
+     * The current entry repeats until skipped
+     */
+    ONE = 'one',
+
+    /**
+     * Playback returns to the first entry after the last entry
+     */
+    ALL = 'all',
+}
+
+export enum QueueEventType {
+    /**
+     * Emitted when the current entry of the queue changes.
+     * - `change(queue, path, previous, time)` => ({@link Queue}, `string`, `string | null`, `number`)
+     *
+     * `time` is the context time at which the new entry begins playback, which can be in the future.
+     */
+    CHANGE = 'change',
+
+    /**
+     * Emitted when the last entry finishes playing and the queue does not repeat.
+     * - `end(queue, time)` => ({@link Queue}, `number`)
+     */
+    END = 'end',
+}
+
+/**
+ * Callback signatures for each {@link QueueEventType}
+ */
+export type QueueEventCallbacks = {
+    [QueueEventType.CHANGE]: (queue: Queue, path: string, previous: string | null, time: number) => any;
+    [QueueEventType.END]: (queue: Queue, time: number) => any;
+};
+
+/**
+ * Handle returned by {@link Queue#listenFor}, used to stop listening for the event
+ */
+export type QueueListener = ListenerHandle<QueueEventType>;
+
+/**
+ * Queue, an ordered playlist of audio sources played on a track
+ */
+class Queue {
+    /**
+     * Paths of all entries, in the order they were enqueued
+     */
+    private entries: string[] = [];
+
+    /**
+     * Playback order, as indices into `entries`. This is only different from the enqueued order
+     * when shuffled.
+     */
+    private order: number[] = [];
+
+    /**
+     * Index into `order` of the current entry, -1 if there is no current entry
+     */
+    private position: number = -1;
+
+    private repeatType: QueueRepeatType = QueueRepeatType.NONE;
+    private isShuffled: boolean = false;
+    private transitionOptions: TrackSwapOptions | TrackSwapAdvancedOptions | undefined;
+
+    /**
+     * `true` from a call to `play()` until the track is stopped or the queue ends
+     */
+    private isPlaying: boolean = false;
+
+    /**
+     * `true` when the current entry has been loaded on the track, so that `play()` resumes it
+     */
+    private isEntryLoaded: boolean = false;
+
+    /**
+     * Timer for checking if the current entry is about to end
+     */
+    private advanceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Seconds before the end of the current entry that the next entry is scheduled. Must be
+     * comfortably longer than `advanceInterval`.
+     */
+    private readonly advanceLookahead: number = 1;
+
+    /**
+     * Milliseconds between checks of the current entry's playhead
+     */
+    private readonly advanceInterval: number = 250;
+
+    private readonly events: EventRegistry<QueueEventCallbacks> = new EventRegistry();
+    private readonly trackListeners: TrackListener[];
+
+    /**
+     * Do not construct this directly, create a queue by invoking
+     * `newQueue()` on your Mixer object.
+     *
+     * @param name name of the queue
+     * @param audioContext context of the track
+     * @param track track that entries are played on
+     * @param cache cache used to preload entries
+     * @param onDestroy called when the queue is destroyed, so the Mixer can forget it
+     */
+    constructor(
+        private readonly name: string,
+        private readonly audioContext: AudioContext,
+        private readonly track: Track,
+        private readonly cache: AudioSourceCache,
+        private readonly onDestroy: (queue: Queue) => void,
+    ) {
+        this.trackListeners = [
+            track.listenFor(TrackEventType.START_PLAYBACK, () => {
+                if (this.position != -1) {
+                    this.isPlaying = true;
+                    this.scheduleAdvance();
+                }
+            }),
+            track.listenFor(TrackEventType.STOP_PLAYBACK, () => {
+                this.isPlaying = false;
+                this.clearAdvance();
+            }),
+            track.listenFor(TrackEventType.SILENCED, (_track, time) => {
+                if (!this.isPlaying || this.track.getActiveSource()?.isActive) {
+                    return;
+                }
+                // The next entry was not scheduled in time, or this was the last entry
+                const next = this.nextPosition(false);
+                if (next == -1) {
+                    this.isPlaying = false;
+                    this.clearAdvance();
+                    this.events.emit(this, QueueEventType.END, time);
+                } else {
+                    this.change(next, buildOptions(null, defaults.trackSwapCut));
+                }
+            }),
+        ];
+    }
+
+    /**
+     * Adds audio sources to the end of the queue. When shuffled, each entry is placed randomly
+     * among the entries that have not yet played.
+     *
+     * @param paths audio source paths
+     * @returns {Queue} this Queue
+     */
+    public enqueue(...paths: string[]): Queue {
+        for (const path of paths) {
+            const index = this.entries.push(path) - 1;
+            if (this.isShuffled) {
+                const first = this.position + 1;
+                const at = first + Math.floor(Math.random() * (this.order.length - first + 1));
+                this.order.splice(at, 0, index);
+            } else {
+                this.order.push(index);
+            }
+        }
+        this.preloadNext();
+        return this;
+    }
+
+    /**
+     * Removes all entries from the queue. The current entry continues to play until it ends.
+     *
+     * @returns {Queue} this Queue
+     */
+    public clear(): Queue {
+        this.entries = [];
+        this.order = [];
+        this.position = -1;
+        this.isEntryLoaded = false;
+        this.clearAdvance();
+        return this;
+    }
+
+    /**
+     * Begin playback of the current entry, or the first entry if there is no current entry.
+     *
+     * Implementation Notes:
+     * - This is equivalent to loading the entry on the track and calling `start()`, so the
+     *   options behave as they do for {@link Track#start}.
+     * - Does nothing if the queue is empty, or already playing.
+     * @param options adjustment parameters for fading in the entry, or swapping when already playing
+     * @returns {Queue} this Queue
+     */
+    public play(options?: AudioAdjustmentOptions | TrackSwapAdvancedOptions): Queue {
+        if (!this.order.length) {
+            console.warn(`Queue.play() called on empty queue "${this.name}". This is likely a mistake.`);
+            return this;
+        }
+
+        if (this.isPlaying && this.track.getActiveSource()?.isActive) {
+            return this;
+        }
+
+        if (this.position == -1) {
+            this.change(0);
+        }
+
+        if (!this.isEntryLoaded) {
+            this.loadEntry();
+        }
+        this.isPlaying = true;
+        if (options) {
+            this.track.start(options);
+        } else {
+            this.track.start();
+        }
+        return this;
+    }
+
+    /**
+     * Stop playback of the queue. This is equivalent to calling `stop()` on the track, and
+     * `play()` will resume the current entry.
+     *
+     * @param options adjustment parameters for fading out the entry
+     * @returns {Queue} this Queue
+     */
+    public stop(options?: AudioAdjustmentOptions): Queue {
+        if (options) {
+            this.track.stop(options);
+        } else {
+            this.track.stop();
+        }
+        return this;
+    }
+
+    /**
+     * Moves to the next entry, swapping to it if the queue is playing.
+     *
+     * Implementation Notes:
+     * - Skips past the current entry even when repeating one entry.
+     * - When there is no next entry, the queue stops and emits the end event.
+     * @param options swap parameters, uses the queue transition when not provided
+     * @returns {Queue} this Queue
+     */
+    public skip(options?: TrackSwapOptions | TrackSwapAdvancedOptions): Queue {
+        const next = this.nextPosition(true);
+        if (next == -1) {
+            this.position = -1;
+            this.isEntryLoaded = false;
+            if (this.isPlaying) {
+                this.track.stop();
+            }
+            this.events.emit(this, QueueEventType.END, this.audioContext.currentTime);
+            return this;
+        }
+
+        this.change(next, options ?? this.transitionOptions);
+        return this;
+    }
+
+    /**
+     * Set how the queue repeats
+     *
+     * @param type repeat type
+     * @returns {Queue} this Queue
+     */
+    public repeat(type: QueueRepeatType): Queue {
+        if (!Object.values(QueueRepeatType).includes(type)) {
+            throw new TypeError(`Unknown repeat type "${type}"`);
+        }
+        this.repeatType = type;
+        this.preloadNext();
+        return this;
+    }
+
+    /**
+     * Shuffle the play order of the queue. The current entry keeps playing, and the remaining
+     * entries are played in a random order. When repeating all entries, the order is shuffled
+     * again each time the queue repeats.
+     *
+     * @param enabled `true` to shuffle, `false` to return to the enqueued order
+     * @returns {Queue} this Queue
+     */
+    public shuffle(enabled: boolean): Queue {
+        const current = this.position == -1 ? undefined : this.order[this.position];
+        this.isShuffled = enabled;
+        if (enabled) {
+            this.shuffleOrder(current);
+            this.position = current == undefined ? -1 : 0;
+        } else {
+            this.order = this.entries.map((_, index) => index);
+            this.position = current ?? -1;
+        }
+        this.preloadNext();
+        return this;
+    }
+
+    /**
+     * Set the swap used when moving between entries. At the end of an entry, the swap is
+     * scheduled so that the old entry has finished ramping out when it ends. Without a
+     * transition, entries cut directly into the next for gapless playback.
+     *
+     * @param options swap parameters, `null` to cut directly between entries
+     * @returns {Queue} this Queue
+     */
+    public transition(options: TrackSwapOptions | TrackSwapAdvancedOptions | null): Queue {
+        this.transitionOptions = options ?? undefined;
+        return this;
+    }
+
+    /**
+     * Assigns a callback to be called for the event. The first argument is always the calling queue.
+     *
+     * @param type event to listen for
+     * @param callback function to execute, see {@link QueueEventCallbacks}
+     * @returns {QueueListener} a handle to stop listening
+     */
+    public listenFor<T extends QueueEventType>(type: T, callback: QueueEventCallbacks[T]): QueueListener {
+        return this.events.listen(type, callback);
+    }
+
+    /**
+     * Stops the queue from following its track, and removes it from the Mixer so that its name can
+     * be used again. The track and its sources are left untouched.
+     */
+    public destroy(): void {
+        this.clearAdvance();
+        this.isPlaying = false;
+        for (const listener of this.trackListeners) {
+            listener.remove();
+        }
+        this.onDestroy(this);
+    }
+
+    /**
+     * The path of the current entry, `null` if there is none
+     */
+    get current(): string | null {
+        return this.position == -1 ? null : this.entries[this.order[this.position]!]!;
+    }
+
+    /**
+     * The paths of all entries, in play order
+     */
+    get paths(): string[] {
+        return this.order.map((index) => this.entries[index]!);
+    }
+
+    /**
+     * The track that entries are played on
+     */
+    get target(): Track {
+        return this.track;
+    }
+
+    public toString(): string {
+        return `Queue[${this.name}]`;
+    }
+
+    /**
+     * @param manual `true` when skipping, which moves past a repeating entry
+     * @returns the position of the next entry, -1 if there is none
+     */
+    private nextPosition(manual: boolean): number {
+        if (!this.order.length) {
+            return -1;
+        }
+        if (!manual && this.repeatType == QueueRepeatType.ONE && this.position != -1) {
+            return this.position;
+        }
+        if (this.position + 1 < this.order.length) {
+            return this.position + 1;
+        }
+        if (this.repeatType != QueueRepeatType.NONE) {
+            return 0;
+        }
+        return -1;
+    }
+
+    /**
+     * Makes the entry at `position` current, swapping to it if the queue is playing
+     * @param position position of the entry in the play order
+     * @param options swap parameters
+     */
+    private change(position: number, options?: TrackSwapOptions | TrackSwapAdvancedOptions): void {
+        this.clearAdvance();
+        const previous = this.current;
+
+        if (this.isShuffled && position == 0 && this.position == this.order.length - 1) {
+            // Keep the first entry, it is the one that was preloaded
+            this.shuffleOrder(this.order[0]);
+        }
+        this.position = position;
+
+        let time = this.audioContext.currentTime;
+        if (this.isPlaying) {
+            const swapOptions = buildOptions(options, defaults.trackSwapDefault);
+            time += swapOptions.newSource.delay;
+            this.loadEntry();
+            this.track.swap(swapOptions);
+        } else {
+            this.isEntryLoaded = false;
+        }
+
+        this.events.emit(this, QueueEventType.CHANGE, this.current!, previous, time);
+        this.preloadNext();
+    }
+
+    /**
+     * Loads the current entry on the track, through the cache so a preloaded entry is
+     * ready immediately
+     */
+    private loadEntry(): void {
+        this.isEntryLoaded = true;
+        this.track.loadSource(this.current!);
+    }
+
+    /**
+     * Loads the next entry into the cache, so that changing to it does not wait for it to load
+     */
+    private preloadNext(): void {
+        const next = this.nextPosition(false);
+        if (next == -1) {
+            return;
+        }
+        const path = this.entries[this.order[next]!]!;
+        if (this.cache.getLoadState(path) == AudioLoadState.UNLOADED) {
+            // Sources report their position from a worklet instead of the position channel
+            const load = isPlayheadWorkletLoaded(this.audioContext)
+                ? this.cache.loadAudioAsync(path)
+                : this.cache.loadPositionAudioAsync(path);
+            load.catch((err) => {
+                console.warn(`${this} failed to preload "${path}".`);
+                console.warn(err);
+            });
+        }
+    }
+
+    /**
+     * Shuffles the play order
+     * @param first entry index to place first in the new order
+     */
+    private shuffleOrder(first?: number): void {
+        const order = this.entries.map((_, index) => index);
+        for (let i = order.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [order[i], order[j]] = [order[j]!, order[i]!];
+        }
+        if (first != undefined) {
+            order.splice(order.indexOf(first), 1);
+            order.unshift(first);
+        }
+        this.order = order;
+    }
+
+    /**
+     * Checks the playhead of the current entry, and schedules the change to the next entry
+     * shortly before the current entry ends
+     */
+    private scheduleAdvance(): void {
+        this.clearAdvance();
+        if (!this.isPlaying) {
+            return;
+        }
+
+        const source = this.track.getActiveSource();
+        if (source && !source.isDestroyed && source.isActive && !source.loop && source.buffer) {
+            const position = source.position();
+            const swapOptions = buildOptions(this.transitionOptions, defaults.trackSwapCut);
+            const fadeOut = swapOptions.oldSource.delay + swapOptions.oldSource.duration;
+            const remaining = (source.buffer.duration - position) / source.playbackRate.value;
+            if (position != -1 && remaining <= this.advanceLookahead + fadeOut) {
+                const next = this.nextPosition(false);
+                if (next != -1) {
+                    const delay = Math.max(0, remaining - fadeOut);
+                    swapOptions.oldSource.delay += delay;
+                    swapOptions.newSource.delay += delay;
+                    this.change(next, swapOptions);
+                }
+                // Otherwise the end is handled when the track is silenced
+                return;
+            }
+        }
+
+        this.advanceTimer = setTimeout(() => this.scheduleAdvance(), this.advanceInterval);
+    }
+
+    private clearAdvance(): void {
+        if (this.advanceTimer != null) {
+            clearTimeout(this.advanceTimer);
+            this.advanceTimer = null;
+        }
+    }
+}
+
+export default Queue;
@@ -0,0 +1,346 @@
+import { AudioBufferHandle, AudioSourceCache } from './AudioSourceCache.js';
+import automation, { AudioAdjustmentOptions } from './automation.js';
+import buildOptions, * as defaults from './defaults.js';
+import { AudioLoadOptions } from './load.js';
+
+/**
+ * Highest cutoff of the damping filter, in hertz
+ */
+const MAX_CUTOFF = 18_000;
+
+/**
+ * Cutoff of the damping filter at the end of a fully damped impulse response, in hertz
+ */
+const MIN_CUTOFF = 400;
+
+export enum ReverbPreset {
+    /**
+     * Long and bright, with strong reflections from the rock
+     */
+    CAVE = 'cave',
+
+    /**
+     * A concert hall
+     */
+    HALL = 'hall',
+
+    /**
+     * A small furnished room, short and muffled
+     */
+    SMALL_ROOM = 'small_room',
+
+    /**
+     * Distant and heavily damped reflections from terrain and trees
+     */
+    OUTDOORS = 'outdoors',
+}
+
+/**
+ * Parameters of a generated impulse response
+ */
+export type ReverbOptions = {
+    /**
+     * Seconds for the reverb to decay by 60 decibels
+     */
+    decay?: number;
+
+    /**
+     * Seconds between the unprocessed audio and the start of the reverb
+     */
+    preDelay?: number;
+
+    /**
+     * How much faster high frequencies decay than low frequencies, from `0` for evenly to `1` for
+     * only low frequencies remaining at the end of the reverb
+     */
+    damping?: number;
+
+    /**
+     * Stereo width of the reverb, from `0` for the same reverb on both channels to `1` for
+     * unrelated reverb on each channel
+     */
+    width?: number;
+};
+
+/**
+ * Generates a stereo impulse response of exponentially decaying noise, which a ConvolverNode turns
+ * into reverb.
+ *
+ * @param audioContext context to create the buffer for
+ * @param options parameters of the impulse response
+ * @returns the impulse response
+ */
+export function generateImpulseResponse(
+    audioContext: BaseAudioContext,
+    options: Required<ReverbOptions>,
+): AudioBuffer {
+    const sampleRate = audioContext.sampleRate;
+    const preDelay = Math.round(options.preDelay * sampleRate);
+    const tail = Math.max(1, Math.round(options.decay * sampleRate));
+    const buffer = audioContext.createBuffer(2, preDelay + tail, sampleRate);
+    const left = buffer.getChannelData(0);
+    const right = buffer.getChannelData(1);
+
+    // Reaches -60 decibels after `decay` seconds
+    const decayRate = Math.log(1000) / tail;
+    const maxCutoff = Math.min(MAX_CUTOFF, sampleRate * 0.45);
+    const endCutoff = maxCutoff * (MIN_CUTOFF / maxCutoff) ** options.damping;
+
+    let lowLeft = 0;
+    let lowRight = 0;
+    for (let i = 0; i < tail; i++) {
+        // One-pole lowpass filters, with a cutoff falling over the tail
+        const cutoff = maxCutoff * (endCutoff / maxCutoff) ** (i / tail);
+        const coefficient = 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate);
+        lowLeft += coefficient * (Math.random() * 2 - 1 - lowLeft);
+        lowRight += coefficient * (Math.random() * 2 - 1 - lowRight);
+
+        const envelope = Math.exp(-decayRate * i);
+        const mid = (lowLeft + lowRight) / 2;
+        const side = ((lowLeft - lowRight) / 2) * options.width;
+        left[preDelay + i] = (mid + side) * envelope;
+        right[preDelay + i] = (mid - side) * envelope;
+    }
+    return buffer;
+}
+
+/**
+ * @param preset reverb preset
+ * @returns the parameters of the preset
+ */
+function presetOptions(preset: ReverbPreset): Required<ReverbOptions> {
+    switch (preset) {
+        case ReverbPreset.CAVE:
+            return defaults.reverbCave;
+        case ReverbPreset.HALL:
+            return defaults.reverbHall;
+        case ReverbPreset.SMALL_ROOM:
+            return defaults.reverbSmallRoom;
+        case ReverbPreset.OUTDOORS:
+            return defaults.reverbOutdoors;
+        default:
+            console.warn(`Unknown reverb preset "${preset}". This is likely a mistake.`);
+            return defaults.reverbHall;
+    }
+}
+
+/**
+ * Convolution reverb, with an impulse response generated from parameters or loaded from a file.
+ *
+ * Use it as an insert effect with {@link EffectChain#add}, or as the effect of a {@link Bus} with
+ * `bus.effect(reverb.input, reverb.output)`. On a bus, set the dry volume to `0`, since the tracks
+ * sending to it are already heard unprocessed.
+ *
+ * Changing the impulse response crossfades to a new ConvolverNode, so it is safe during playback.
+ */
+class Reverb {
+    private readonly inputNode: GainNode;
+    private readonly outputNode: GainNode;
+    private readonly dryNode: GainNode;
+    private readonly wetNode: GainNode;
+
+    /**
+     * The convolver currently heard, and the gain fading it in or out
+     */
+    private convolver: ConvolverNode | null = null;
+    private convolverGain: GainNode | null = null;
+
+    /**
+     * Handle to an impulse response loaded through a cache
+     */
+    private handle: AudioBufferHandle | null = null;
+
+    /**
+     * Incremented every time the impulse response changes, so that a slow load does not replace a
+     * newer impulse response
+     */
+    private generation: number = 0;
+
+    /**
+     * @param audioContext
+     * @param impulse preset or parameters of the generated impulse response, defaults to a hall
+     */
+    constructor(
+        private readonly audioContext: AudioContext,
+        impulse: ReverbPreset | ReverbOptions = ReverbPreset.HALL,
+    ) {
+        this.inputNode = audioContext.createGain();
+        this.outputNode = audioContext.createGain();
+        this.dryNode = audioContext.createGain();
+        this.wetNode = audioContext.createGain();
+        this.wetNode.gain.value = 0.5;
+
+        this.inputNode.connect(this.dryNode);
+        this.dryNode.connect(this.outputNode);
+        this.wetNode.connect(this.outputNode);
+
+        this.generate(impulse, defaults.automationImmediate);
+    }
+
+    /**
+     * The node receiving the audio to process
+     */
+    get input(): AudioNode {
+        return this.inputNode;
+    }
+
+    /**
+     * The node sending the processed audio
+     */
+    get output(): AudioNode {
+        return this.outputNode;
+    }
+
+    /**
+     * Generate a new impulse response.
+     *
+     * @param impulse preset or parameters of the impulse response, parameters which are not given
+     *                use the hall preset
+     * @param options adjustment parameters of the crossfade to the new impulse response
+     * @returns {Reverb} this Reverb
+     */
+    public generate(impulse: ReverbPreset | ReverbOptions, options?: AudioAdjustmentOptions): Reverb {
+        const reverbOptions =
+            typeof impulse == 'string' ? presetOptions(impulse) : buildOptions(impulse, defaults.reverbHall);
+        this.releaseHandle();
+        this.generation++;
+        this.applyImpulse(generateImpulseResponse(this.audioContext, reverbOptions), options);
+        return this;
+    }
+
+    /**
+     * Use an impulse response file, loaded through the cache. The current impulse response is kept
+     * until the file has loaded.
+     *
+     * @param path path of the impulse response file
+     * @param cache cache to load the file through
+     * @param loadOptions retry and timeout behavior, if the file is not loaded yet
+     * @param options adjustment parameters of the crossfade to the new impulse response
+     * @returns {Promise<Reverb>} this Reverb, once the file is loaded
+     */
+    public async load(
+        path: string,
+        cache: AudioSourceCache,
+        loadOptions?: AudioLoadOptions,
+        options?: AudioAdjustmentOptions,
+    ): Promise<Reverb> {
+        const generation = ++this.generation;
+        const handle = await cache.acquireAsync(path, loadOptions, false);
+        if (generation != this.generation) {
+            handle.release();
+            return this;
+        }
+
+        this.releaseHandle();
+        this.handle = handle;
+        this.applyImpulse(handle.buffer, options);
+        return this;
+    }
+
+    /**
+     * Use an impulse response buffer
+     *
+     * @param buffer the impulse response
+     * @param options adjustment parameters of the crossfade to the new impulse response
+     * @returns {Reverb} this Reverb
+     */
+    public impulse(buffer: AudioBuffer, options?: AudioAdjustmentOptions): Reverb {
+        this.releaseHandle();
+        this.generation++;
+        this.applyImpulse(buffer, options);
+        return this;
+    }
+
+    /**
+     * Set the volume of the unprocessed audio, `1` by default
+     *
+     * @param volume gain multiplier
+     * @param options adjustment parameters
+     * @returns {Reverb} this Reverb
+     */
+    public dry(volume: number, options?: AudioAdjustmentOptions): Reverb {
+        automation(
+            this.audioContext,
+            this.dryNode.gain,
+            volume,
+            buildOptions(options, defaults.automationDefault),
+        );
+        return this;
+    }
+
+    /**
+     * Set the volume of the reverb, `0.5` by default
+     *
+     * @param volume gain multiplier
+     * @param options adjustment parameters
+     * @returns {Reverb} this Reverb
+     */
+    public wet(volume: number, options?: AudioAdjustmentOptions): Reverb {
+        automation(
+            this.audioContext,
+            this.wetNode.gain,
+            volume,
+            buildOptions(options, defaults.automationDefault),
+        );
+        return this;
+    }
+
+    /**
+     * Disconnects this reverb and releases its impulse response. It is okay to call this multiple
+     * times.
+     */
+    public destroy(): void {
+        this.generation++;
+        this.releaseHandle();
+        this.inputNode.disconnect();
+        this.dryNode.disconnect();
+        this.wetNode.disconnect();
+        this.convolver?.disconnect();
+        this.convolverGain?.disconnect();
+        this.convolver = null;
+        this.convolverGain = null;
+    }
+
+    /**
+     * Crossfades from the current convolver to a new convolver with the impulse response
+     */
+    private applyImpulse(buffer: AudioBuffer, options?: AudioAdjustmentOptions): void {
+        const adjustment = buildOptions(options, defaults.reverbCrossfade);
+
+        const convolver = this.audioContext.createConvolver();
+        convolver.buffer = buffer;
+        const convolverGain = this.audioContext.createGain();
+        convolverGain.gain.value = 0;
+        this.inputNode.connect(convolver);
+        convolver.connect(convolverGain);
+        convolverGain.connect(this.wetNode);
+        automation(this.audioContext, convolverGain.gain, 1, adjustment);
+
+        const oldConvolver = this.convolver;
+        const oldGain = this.convolverGain;
+        if (oldConvolver && oldGain) {
+            automation(this.audioContext, oldGain.gain, 0, adjustment);
+            setTimeout(
+                () => {
+                    // Already disconnected if destroyed
+                    if (this.convolver) {
+                        this.inputNode.disconnect(oldConvolver);
+                    }
+                    oldConvolver.disconnect();
+                    oldGain.disconnect();
+                },
+                (adjustment.delay + adjustment.duration) * 1000,
+            );
+        }
+
+        this.convolver = convolver;
+        this.convolverGain = convolverGain;
+    }
+
+    private releaseHandle(): void {
+        this.handle?.release();
+        this.handle = null;
+    }
+}
+
+export default Reverb;
@@ -1,4 +1,8 @@
-import AudioSourceNode from './AudioSourceNode.js';
+import { AudioSourceCache } from './AudioSourceCache.js';
+import AudioSourceNode, { EventEnded, EventError } from './AudioSourceNode.js';
+import Bus from './Bus.js';
+import EffectChain from './EffectChain.js';
+import EventRegistry, { ListenerHandle } from './EventRegistry.js';
 import automation, { AudioAdjustmentOptions } from './automation.js';
 import buildOptions, * as defaults from './defaults.js';
 
@@ -7,7 +11,15 @@ import buildOptions, * as defaults from './defaults.js';
  * beat rules on a given Track. Also used for passing beat events to callbacks.
  */
 export type TrackBeat = {
+    /**
+     * The AudioContext time of the beat. For beat rules returned by `createBeat()`, this is the time of
+     * the most recently generated beat, or `-1` if no beats have been generated.
+     */
     time: number;
+
+    /**
+     * `true` after `cancel()` has been called
+     */
     isCancelled: boolean;
 
     /**
@@ -80,6 +92,13 @@ export enum TrackEventType {
      * - `silenced(track, time)` => ({@link Track}, `number`)
      */
     SILENCED = 'silenced',
+
+    /**
+     * Fires when an AudioSource loaded onto the track fails to load. If the track was waiting to
+     * start it, the track plays its fallback instead, see {@link Track#fallback}.
+     * - `loadError(track, source, error)` => ({@link Track}, {@link AudioSourceNode}, `unknown`)
+     */
+    LOAD_ERROR = 'loadError',
 }
 
 export enum TrackSwapType {
@@ -110,7 +129,8 @@ export enum TrackSwapType {
  */
 export type TrackSwapOptions = AudioAdjustmentOptions & {
     /**
-     * Order of operation when swapping sources
+     * Order of operation when swapping sources, selecting the default adjustments
+     * for that swap which `duration` scales. `null` uses the default of the caller.
      */
     swap: TrackSwapType | null;
 
@@ -118,6 +138,10 @@ export type TrackSwapOptions = AudioAdjustmentOptions & {
      * Delay between the end of the old source and the start of the new source.
      * To achieve the effect, implementations add the delay and duration of the
      * adjustment to this value, and use it as the starting delay on the new source.
+     * For IN_OUT swaps, this is instead the delay between the end of the new
+     * source ramping in and the start of the old source ramping out. For CROSS
+     * swaps, this is the delay between the start of both ramps, so the ramps
+     * still overlap.
      */
     swapDelay?: number;
 };
@@ -132,6 +156,37 @@ export type TrackSwapAdvancedOptions = {
     newSource: Required<AudioAdjustmentOptions>;
 };
 
+/**
+ * Options for sending a track to a bus, see {@link Track#send}.
+ * Includes all options from AudioAdjustmentOptions, which adjust the send level.
+ */
+export type TrackSendOptions = AudioAdjustmentOptions & {
+    /**
+     * `true` to send the track before its volume and ducking are applied, so the send level is
+     * independent of the track volume. Changing this on an existing send takes effect immediately.
+     * Defaults to `false` for a new send, and keeps the current setting for an existing send.
+     */
+    preFader?: boolean;
+};
+
+/**
+ * Callback signatures for each {@link TrackEventType}. The first argument is always the track that
+ * emitted the event, which for listeners on a {@link TrackGroup} is the child track.
+ */
+export type TrackEventCallbacks = {
+    [TrackEventType.START_PLAYBACK]: (track: Track, startOptions: Required<AudioAdjustmentOptions>) => any;
+    [TrackEventType.STOP_PLAYBACK]: (track: Track, stopOptions: Required<AudioAdjustmentOptions>) => any;
+    [TrackEventType.BEAT]: (track: Track, beat: TrackBeat) => any;
+    [TrackEventType.POSITION]: (track: Track, position: number) => any;
+    [TrackEventType.SILENCED]: (track: Track, time: number) => any;
+    [TrackEventType.LOAD_ERROR]: (track: Track, source: AudioSourceNode, error: unknown) => any;
+};
+
+/**
+ * Handle returned by {@link Track#listenFor}, used to stop listening for the event
+ */
+export type TrackListener = ListenerHandle<TrackEventType>;
+
 /**
  * Track interface
  */
@@ -147,14 +202,22 @@ interface Track {
     connect(destination: AudioParam, outputIndex?: number): void;
     connect(destination: AudioNode | AudioParam, outputIndex?: number, inputIndex?: number): AudioNode | void;
 
+    /**
+     * Removes a connection made with {@link connect}.
+     *
+     * @param destination the {@link AudioNode} or {@link AudioParam} to disconnect from
+     */
+    disconnect(destination: AudioNode | AudioParam): void;
+
     /**
      * Begin playback on the track, starting the loaded AudioSource.
      *
      * Implementation Notes:
      * - If this call follows a `loadSource()`, it will call `swap()` using a default OUT_IN swap.
      *   Merge the passed options with the default swap. Use `swap()` directly for more control.
-     * - If the AudioSource attached to this Track is already playing, clone it as a new loaded source
-     *   and call `swap()`, merging the passed options with the default swap options as above.
+     * - If the AudioSource attached to this Track is already playing, restart it on a continuation
+     *   which keeps its effects, see {@link AudioSourceNode#continueAt}. Both are faded like a swap,
+     *   merging the passed options with the default swap options as above.
      * - Using `duration` is equivalent to calling `stop(delay + duration)` after this method returns.
      * @param delay optional delay time
      * @param options adjustment parameters for fading in the source, or swapping when already playing
@@ -177,8 +240,8 @@ interface Track {
      * Implementation Notes:
      * - Does nothing if there is no playing AudioSource.
      * - For consecutive calls, the earliest time from consecuitive calls will be used.
-     * - Saves the playhead position of the AudioSource at the time this method is called,
-     *   so that a future `start()` call will resume from the saved position.
+     * - Saves the playhead position of the AudioSource at the time playback actually stops, after
+     *   the delay and fade out, so that a future `start()` call will resume from the saved position.
      * @param delay optional delay time
      * @param options adjustment parameters for fading out the source
      * @returns {Track} this Track
@@ -187,6 +250,35 @@ interface Track {
     stop(delay: number): Track;
     stop(options: AudioAdjustmentOptions): Track;
 
+    /**
+     * Pause playback on the track, so that `resume()` continues from where the audio stopped.
+     *
+     * Implementation Notes:
+     * - Stops like `stop()`, and also remembers the fade out so that `resume()` can match it.
+     * - The resume point is the position of the AudioSource at the time playback actually stops,
+     *   following any loops and jumps during the delay and fade out.
+     * @param delay optional delay time
+     * @param options adjustment parameters for fading out the source
+     * @returns {Track} this Track
+     */
+    pause(): Track;
+    pause(delay: number): Track;
+    pause(options: AudioAdjustmentOptions): Track;
+
+    /**
+     * Resume playback after `pause()`. Does nothing if the track is not paused.
+     *
+     * Implementation Notes:
+     * - Fades in with the ramp and duration used to pause, unless given in `options`.
+     * - Calling `start()` also resumes from the same position, but without matching the fade.
+     * @param delay optional delay time
+     * @param options adjustment parameters for fading in the source
+     * @returns {Track} this Track
+     */
+    resume(): Track;
+    resume(delay: number): Track;
+    resume(options: AudioAdjustmentOptions): Track;
+
     /**
      * Loads and immediately starts playback of an audio source.
      *
@@ -214,11 +306,16 @@ interface Track {
      * calling `start()` will play the last loaded audio source. You may use this to load a second
      * audio source while one is already playing, it will not be swapped until a call to `start()`
      * or `swap()` is made.
+     *
+     * Implementation Notes:
+     * - Paths are loaded through the Mixer's {@link AudioSourceCache}, so the same file is only
+     *   decoded once. Pass `useCache = false` to load directly from the file system.
      * @param path audio source path
+     * @param useCache `false` to skip the cache when loading a path
      * @param source source to use
      * @returns {AudioSourceNode} the new AudioSource
      */
-    loadSource(path: string): AudioSourceNode;
+    loadSource(path: string, useCache?: boolean): AudioSourceNode;
     loadSource(source: AudioSourceNode): AudioSourceNode;
 
     /**
@@ -232,6 +329,20 @@ interface Track {
      */
     getLoadedSource(): AudioSourceNode | null;
 
+    /**
+     * Set what to play when an AudioSource fails to load while the track is waiting to start it.
+     * The failure is reported by the {@link TrackEventType.LOAD_ERROR} event either way.
+     *
+     * Implementation Notes:
+     * - A path is only loaded once a failure happens, through the cache if the track has one.
+     * - A source is cloned for each failure, so it must already be loaded.
+     * - Without a fallback, or if the fallback fails to load too, the track stays silent and emits
+     *   {@link TrackEventType.SILENCED}, so nothing waits on playback that will never happen.
+     * @param source path or source to play instead, `null` for silence
+     * @returns {Track} this Track
+     */
+    fallback(source: string | AudioSourceNode | null): Track;
+
     /**
      * Swaps the currently playing AudioSource with the loaded AudioSource.
      * If there is no loaded source from calling loadSource(), this method does nothing.
@@ -260,11 +371,38 @@ interface Track {
      */
     volume(volume: number, options?: AudioAdjustmentOptions): Track;
 
+    /**
+     * Set the ducking volume of this track, applied on top of {@link volume}. This is controlled by
+     * the duck rules of the Mixer, see {@link Mixer#duck}, which override any value set here.
+     * @param volume gain multiplier
+     * @param options adjustment parameters
+     * @returns {Track} this Track
+     */
+    duck(volume: number, options?: AudioAdjustmentOptions): Track;
+
+    /**
+     * Send the output of this track to a bus, in addition to its normal output. Calling this again
+     * for the same bus adjusts the existing send.
+     * @param bus bus created with {@link Mixer#newBus}
+     * @param level gain multiplier of the send, `0` to silence it
+     * @param options adjustment parameters, and where the send is taken from
+     * @returns {Track} this Track
+     */
+    send(bus: Bus, level: number, options?: TrackSendOptions): Track;
+
+    /**
+     * The insert effects of this track, which process its audio before the volume is applied.
+     * @returns {EffectChain} the effect chain of this Track
+     */
+    effects(): EffectChain;
+
     /**
      * Enabled/ disable a loop, and set timings.
      *
      * Implementation Notes:
      * - Uses the AudioBufferSourceNode built-in looping parameters directly
+     * - Samples are counted at the sample rate of the file, not the AudioContext, see
+     *   {@link AudioSourceNode#fileSampleRate}.
      * @param enabled true to enable looping
      * @param startSample point to loop back to, must be before `endSample`
      * @param endSample trigger point for the loop, must be after `startSample`
@@ -280,6 +418,9 @@ interface Track {
      *   then schedules a CUT swap to the `toSample`. As a result, this can also
      *   be used for looping, but that is provided separately so both can be used
      *   at the same time.
+     * - Jumps that are missed, such as by starting playback after `fromSample`, do not happen.
+     * - Swapping in a newly loaded source disables the jump.
+     * - Samples are counted at the sample rate of the file, like {@link loop}.
      * @param enabled true to enable jumping
      * @param fromSample trigger point for the jump
      * @param toSample point to jump to
@@ -287,6 +428,21 @@ interface Track {
      */
     jump(enabled: boolean, fromSample?: number, toSample?: number): Track;
 
+    /**
+     * Move the playhead of the track. While playing, the current position crossfades into the
+     * target position. Otherwise, the next `start()` begins from the target position, even when a
+     * new source is loaded before it.
+     *
+     * Implementation Notes:
+     * - Loop and jump settings carry over to the new position, and beats continue from it.
+     * - Samples are counted at the sample rate of the file, like {@link loop}.
+     * - Targets past the end of the source are clamped to the end.
+     * @param position target in seconds, or `{ sample }` for a sample of the file
+     * @param options adjustment parameters for the crossfade, the delay postpones the seek
+     * @returns {Track} this Track
+     */
+    seek(position: number | { sample: number }, options?: AudioAdjustmentOptions): Track;
+
     /**
      * Create a beat rule and return it.
      *
@@ -307,6 +463,11 @@ interface Track {
 
     /**
      * Schedules this track to start playback precisely when the given track generates a beat.
+     *
+     * Implementation Notes:
+     * - Only the next generated beat is used, subsequent calls replace the previous synchronization.
+     * - If the beat is cancelled before it happens, playback is rapidly stopped.
+     * - For groups, beats are taken from the primary track of the group.
      * @param track track
      * @param options adjustment parameters
      * @returns {Track} this Track
@@ -317,6 +478,11 @@ interface Track {
      * Schedules this track to stop playback precisely when the given track generates a beat.
      *
      * It is possible to synchronize a track to stop to itself.
+     *
+     * Implementation Notes:
+     * - Only the next generated beat is used, subsequent calls replace the previous synchronization.
+     * - If the beat is cancelled before it happens, the fade out is reversed and playback continues.
+     * - For groups, beats are taken from the primary track of the group.
      * @param track track
      * @param options adjustment parameters
      * @returns {Track} this Track
@@ -324,12 +490,17 @@ interface Track {
     syncStopTo(track: Track, options?: AudioAdjustmentOptions): Track;
 
     /**
-     * Assigns a callback to be called for the event. The first arguement is always the calling track.
+     * Assigns a callback to be called for the event. The first argument is always the calling track.
+     *
+     * Implementation Notes:
+     * - Callbacks are called in the order they were assigned. Exceptions are logged, and do not
+     *   prevent other callbacks from being called.
+     * - Callbacks assigned to a {@link TrackGroup} receive the events of all tracks in the group.
      * @param type event to listen for
-     * @param callback async function to execute
-     * @returns {Track} this Track
+     * @param callback function to execute, see {@link TrackEventCallbacks}
+     * @returns {TrackListener} a handle to stop listening
      */
-    listenFor(type: TrackEventType, callback: Promise<any>): Track;
+    listenFor<T extends TrackEventType>(type: T, callback: TrackEventCallbacks[T]): TrackListener;
 }
 
 //#region TrackSingle
@@ -342,6 +513,26 @@ class TrackSingle implements Track {
      */
     private readonly gainNode: GainNode;
 
+    /**
+     * Gain after the master gain, controlled by duck rules
+     */
+    private readonly duckNode: GainNode;
+
+    /**
+     * Sends of this track, see {@link send}
+     */
+    private readonly sends: Map<Bus, TrackSend> = new Map();
+
+    /**
+     * Sum of the primary and secondary sources, feeding the effect chain
+     */
+    private readonly inputNode: GainNode;
+
+    /**
+     * Insert effects between the sources and the master gain
+     */
+    private readonly effectChain: EffectChain;
+
     /**
      * Internal gain node for fading in/ out the primary source, for stopping and starting
      */
@@ -368,6 +559,12 @@ class TrackSingle implements Track {
      */
     private resumeMarker: number = 0;
 
+    /**
+     * Target of a seek made while stopped, which the next start() begins from instead of the
+     * resume marker. Samples are converted once the source starting from it is known.
+     */
+    private seekTarget: number | { sample: number } | null = null;
+
     /**
      * Stores the earliest scheduled stop time, used to disable the ability to call
      * stop continuously with future times such that the underlying AudioSourceNode
@@ -400,6 +597,135 @@ class TrackSingle implements Track {
      */
     private lastLoopCallTime: number = 0;
 
+    /**
+     * Fade out used by pause(), for resume() to fade in with. `null` when not paused.
+     */
+    private pauseOptions: Required<AudioAdjustmentOptions> | null = null;
+
+    /**
+     * Beat rules created with createBeat(), in the order they were created
+     */
+    private beats: TrackBeatRule[] = [];
+
+    /**
+     * Incremented by loadSource(), so that beat rules created before a new source
+     * is loaded are removed once that source is swapped in.
+     */
+    private sourceGeneration: number = 0;
+
+    /**
+     * Timer for looking ahead of the playhead, `null` when there is nothing to look ahead for
+     */
+    private lookaheadTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /** How far ahead of the playhead to generate beats and schedule jumps, in seconds */
+    private lookahead: number = 0.2;
+
+    /** How often to look ahead of the playhead, in milliseconds */
+    private lookaheadInterval: number = 50;
+
+    /** Beats closer than this to a previously generated beat are considered the same beat, in seconds */
+    private beatTolerance: number = 0.02;
+
+    /**
+     * Synchronizations waiting for the next beat generated by this track
+     */
+    private beatSyncs: ((beat: TrackBeat) => void)[] = [];
+
+    /**
+     * The latest synchronization from syncPlayTo(), replaced on subsequent calls
+     */
+    private pendingPlaySync: ((beat: TrackBeat) => void) | null = null;
+
+    /**
+     * The latest synchronization from syncStopTo(), replaced on subsequent calls
+     */
+    private pendingStopSync: ((beat: TrackBeat) => void) | null = null;
+
+    /**
+     * Set by jump(), enables jumping from `jumpFromSample` to `jumpToSample`
+     */
+    private jumpEnabled: boolean = false;
+
+    /** Sample that triggers the jump */
+    private jumpFromSample: number = 0;
+
+    /** Sample to jump to */
+    private jumpToSample: number = 0;
+
+    /**
+     * The source generation when jump() was last called, the jump is disabled once a newer
+     * source is swapped in.
+     */
+    private jumpGeneration: number = 0;
+
+    /**
+     * The AudioContext time that the playing source is scheduled to start playback
+     */
+    private playbackStartTime: number = 0;
+
+    /**
+     * The offset, in seconds, that the playing source is scheduled to start playback from
+     */
+    private playbackStartOffset: number = 0;
+
+    /**
+     * Event listeners for this track
+     */
+    private readonly events: TrackEvents;
+
+    /**
+     * Path or source to play when a source fails to load, `null` for silence
+     */
+    private fallbackSource: string | AudioSourceNode | null = null;
+
+    /**
+     * The most recent source started in place of a source that failed to load, so that a failing
+     * fallback does not fall back to itself
+     */
+    private fallbackNode: AudioSourceNode | null = null;
+
+    /**
+     * Request ID of the next position update, `null` when position updates are not running
+     */
+    private positionFrame: number | null = null;
+
+    /**
+     * Emits the silenced event when the playing source has ended
+     */
+    private readonly onSourceEnded = (event: EventEnded): void => {
+        if (!this.playingSource?.isActive) {
+            this.events.emit(this, TrackEventType.SILENCED, event.time);
+        }
+    };
+
+    /**
+     * Emits the load error event for sources loaded onto this track
+     */
+    private readonly onSourceError = (event: EventError): void => {
+        this.events.emit(this, TrackEventType.LOAD_ERROR, event.target, event.error);
+    };
+
+    /**
+     * Emits the position event every frame while the playing source is active
+     */
+    private readonly updatePosition = (): void => {
+        this.positionFrame = null;
+        const source = this.playingSource;
+        if (!source || source.isDestroyed || !source.isActive) {
+            return;
+        }
+
+        if (this.events.has(TrackEventType.POSITION) && this._time >= this.playbackStartTime) {
+            const position = source.position();
+            if (position != -1) {
+                this.events.emit(this, TrackEventType.POSITION, position);
+            }
+        }
+
+        this.positionFrame = requestAnimationFrame(this.updatePosition);
+    };
+
     /**
      * Implementation Notes:
      * - If the given AudioSourceNode has outgoing connections, they will be disconnected at the
@@ -410,22 +736,35 @@ class TrackSingle implements Track {
      * @param name
      * @param audioContext
      * @param destination
+     * @param cache cache used to load sources from paths, `null` to always load from the file system
      * @param source
+     * @param groupEvents events of the group that owns this track, which receive all events of this track
      */
     constructor(
         private readonly name: string,
         private readonly audioContext: AudioContext,
         destination: AudioNode,
+        private readonly cache: AudioSourceCache | null,
         source?: AudioSourceNode,
+        groupEvents?: TrackEvents,
     ) {
         this.gainNode = audioContext.createGain();
-        this.gainNode.connect(destination);
+        this.duckNode = audioContext.createGain();
+        this.gainNode.connect(this.duckNode);
+        this.duckNode.connect(destination);
         this.loadedSource = source;
+        this.events = new EventRegistry(groupEvents);
+        if (source) {
+            this.watchSourceError(source);
+        }
 
         this.gainPrimaryNode = audioContext.createGain();
         this.gainSecondaryNode = audioContext.createGain();
-        this.gainPrimaryNode.connect(this.gainNode);
-        this.gainSecondaryNode.connect(this.gainNode);
+        this.inputNode = audioContext.createGain();
+        this.gainPrimaryNode.connect(this.inputNode);
+        this.gainSecondaryNode.connect(this.inputNode);
+        this.effectChain = new EffectChain(audioContext, this.inputNode);
+        this.effectChain.output.connect(this.gainNode);
     }
 
     public toString(): string {
@@ -440,9 +779,9 @@ class TrackSingle implements Track {
         inputIndex?: number,
     ): AudioNode | void {
         if (destination instanceof AudioNode) {
-            return this.gainNode.connect(destination, outputIndex, inputIndex);
+            return this.duckNode.connect(destination, outputIndex, inputIndex);
         } else if (destination instanceof AudioParam) {
-            return this.gainNode.connect(destination, outputIndex);
+            return this.duckNode.connect(destination, outputIndex);
         } else {
             console.warn(
                 `Cannot connect to type ${(destination as any)?.constructor?.name}. This is likely a mistake.`,
@@ -450,6 +789,18 @@ class TrackSingle implements Track {
         }
     }
 
+    public disconnect(destination: AudioNode | AudioParam): void {
+        if (destination instanceof AudioNode) {
+            this.duckNode.disconnect(destination);
+        } else if (destination instanceof AudioParam) {
+            this.duckNode.disconnect(destination);
+        } else {
+            console.warn(
+                `Cannot disconnect from type ${(destination as any)?.constructor?.name}. This is likely a mistake.`,
+            );
+        }
+    }
+
     start(): Track;
     start(delay: number, offset?: number, duration?: number): Track;
     start(
@@ -472,11 +823,17 @@ class TrackSingle implements Track {
 
         this.lastStartCallTime = this.audioContext.currentTime;
 
-        // Implicitly load a copy of the same source to call swap
+        // Restart the playing source, fading it over to a continuation as if swapping
         if (this.playingSource?.isActive && !this.loadedSource) {
-            this.loadedSource = this.playingSource.clone(this);
-            this.loadedSource.hrtfPanner = this.playingSource.hrtfPanner;
-            this.isLoadSourceCalled = true;
+            let swapOptions: TrackSwapAdvancedOptions;
+            if (delay) {
+                swapOptions = buildOptions(null, defaults.trackSwapDefault);
+                swapOptions.newSource.delay += delay;
+                swapOptions.oldSource.delay += delay;
+            } else {
+                swapOptions = buildOptions(options, defaults.trackSwapOutIn);
+            }
+            return this.restartPlayingSource(swapOptions, offset, duration);
         }
 
         // Swap after loading a source with loadSource()
@@ -504,7 +861,8 @@ class TrackSingle implements Track {
                     this.playingSource.volume(0, fadeOut);
                     this.playingSource.stop(this._time + fadeOut.delay + fadeOut.duration);
                     if (this.playingSource.owner == this) {
-                        setTimeout(this.playingSource.destroy, fadeOut.delay + fadeOut.duration);
+                        const oldSource = this.playingSource;
+                        setTimeout(() => oldSource.destroy(), 1000 * (fadeOut.delay + fadeOut.duration));
                     }
                 } else if (this.playingSource.owner == this) {
                     this.playingSource.destroy();
@@ -516,6 +874,17 @@ class TrackSingle implements Track {
             this.loadedSource = undefined;
             this.isLoadSourceCalled = false;
             sourceChanged = true;
+
+            // Beat rules and jumps set before the new source was loaded belong to the old source
+            this.beats = this.beats.filter((rule) => {
+                if (rule.generation < this.sourceGeneration) {
+                    rule.cancel();
+                }
+                return !rule.isCancelled;
+            });
+            if (this.jumpGeneration < this.sourceGeneration) {
+                this.jumpEnabled = false;
+            }
         }
 
         if (!this.playingSource) {
@@ -531,29 +900,15 @@ class TrackSingle implements Track {
             return this;
         }
 
+        // A seek made while stopped applies to whichever source starts next
+        const startOffset = offset || (this.seekTarget ?? (!sourceChanged ? this.resumeMarker : 0));
         if (this.playingSource.buffer) {
-            this.playingSource.start(
+            this.startPlayingSource(
                 this._time + startOptions.delay,
-                offset || (!sourceChanged ? this.resumeMarker : 0),
+                this.seekSeconds(this.playingSource, startOffset),
             );
         } else if (!this.playingSource.isLoaded) {
-            const self = this;
-            const expectedCallTime = this.lastStartCallTime;
-            this.playingSource.addEventListener(
-                'loaded',
-                (event) => {
-                    if (
-                        !event.target.isDestroyed &&
-                        self.lastStartCallTime - expectedCallTime < Number.EPSILON
-                    ) {
-                        event.target.start(
-                            self._time + startOptions.delay,
-                            offset || (!sourceChanged ? self.resumeMarker : 0),
-                        );
-                    }
-                },
-                { once: true },
-            );
+            this.startWhenLoaded(startOptions, startOffset);
         } else {
             console.warn(
                 `Track's AudioSourceNode seems to be in an invalid state. ` +
@@ -564,9 +919,12 @@ class TrackSingle implements Track {
         }
 
         automation(this.audioContext, this.gainPrimaryNode.gain, 1, startOptions, true);
+        this.events.emit(this, TrackEventType.START_PLAYBACK, startOptions);
 
         this.nextStopTime = 0;
         this.resumeMarker = 0;
+        this.seekTarget = null;
+        this.pauseOptions = null;
 
         if (duration != undefined) {
             this.stop(startOptions.delay + duration);
@@ -591,26 +949,139 @@ class TrackSingle implements Track {
             return this;
         }
 
-        const position = this.playingSource.position();
-        if (position != -1) {
-            this.resumeMarker = position;
-        }
-
         const stopOptions = buildOptions(options, defaults.stopImmediate);
         if (delay != undefined) {
             stopOptions.delay += delay;
         }
 
-        const scheduledStop = this._time + stopOptions.delay + stopOptions.duration;
-        if (this.nextStopTime == 0 || scheduledStop < this.nextStopTime) {
-            this.nextStopTime = scheduledStop;
-        }
-        this.playingSource.stop(this.nextStopTime);
+        this.stopPlayingSource(this._time + stopOptions.delay + stopOptions.duration);
         automation(this.audioContext, this.gainPrimaryNode.gain, 0, stopOptions, true);
+        this.events.emit(this, TrackEventType.STOP_PLAYBACK, stopOptions);
+
+        return this;
+    }
+
+    public pause(): Track;
+    public pause(delay: number): Track;
+    public pause(options: AudioAdjustmentOptions): Track;
+    pause(delayOrOptions?: number | AudioAdjustmentOptions): Track {
+        if (!this.playingSource?.isActive) {
+            return this;
+        }
 
+        // @ts-expect-error This is just a pass-through to stop()
+        this.stop(delayOrOptions);
+        this.pauseOptions = buildOptions(
+            typeof delayOrOptions == 'number' ? null : delayOrOptions,
+            defaults.stopImmediate,
+        );
         return this;
     }
 
+    public resume(): Track;
+    public resume(delay: number): Track;
+    public resume(options: AudioAdjustmentOptions): Track;
+    resume(delayOrOptions?: number | AudioAdjustmentOptions): Track {
+        if (!this.pauseOptions) {
+            return this;
+        }
+
+        const options: AudioAdjustmentOptions = {
+            ramp: this.pauseOptions.ramp,
+            duration: this.pauseOptions.duration,
+        };
+        if (typeof delayOrOptions == 'number') {
+            options.delay = delayOrOptions;
+        } else if (delayOrOptions) {
+            Object.assign(options, delayOrOptions);
+        }
+
+        // Resuming before the fade out has finished continues from the current position instead, and
+        // start() applies a seek made while stopped
+        let offset: number | undefined = this.seekTarget == null ? this.resumeMarker : undefined;
+        if (this.playingSource?.isActive) {
+            const position = this.positionAt(this.playingSource, this._time);
+            if (position != -1) {
+                offset = position;
+            }
+        }
+        return this.start(options, offset);
+    }
+
+    /**
+     * Saves the playhead position at the time playback stops, and schedules the playing source to
+     * stop. If the source is already scheduled to stop sooner, that time is kept.
+     * @param when AudioContext time to stop playback
+     */
+    private stopPlayingSource(when: number): void {
+        if (!this.playingSource?.isActive) {
+            return;
+        }
+
+        if (this.nextStopTime == 0 || when < this.nextStopTime) {
+            this.nextStopTime = when;
+        }
+
+        const position = this.positionAt(this.playingSource, this.nextStopTime);
+        if (position != -1) {
+            this.resumeMarker = position;
+        }
+        this.playingSource.stop(this.nextStopTime);
+    }
+
+    /**
+     * Converts a seek target to seconds of a source, clamped to the end of the source
+     * @param source source to seek
+     * @param position target in seconds, or `{ sample }` for a sample of the file
+     * @returns the target in seconds
+     */
+    private seekSeconds(source: AudioSourceNode, position: number | { sample: number }): number {
+        if (!source.buffer) {
+            return typeof position == 'number' ? position : 0;
+        }
+        const seconds = typeof position == 'number' ? position : position.sample / source.fileSampleRate;
+        return Math.min(seconds, source.buffer.duration);
+    }
+
+    /**
+     * Moves the start of playback to now, so that the playhead is followed with the current loop and
+     * jump settings only from now on. Call this before changing them.
+     */
+    private anchorPlayhead(): void {
+        const source = this.playingSource;
+        if (!source?.isActive || this._time <= this.playbackStartTime) {
+            return;
+        }
+        const position = this.positionAt(source, this._time);
+        if (position != -1) {
+            this.playbackStartTime = this._time;
+            this.playbackStartOffset = position;
+        }
+    }
+
+    /**
+     * Predicts the position of a playing source at a future time, following loops and jumps.
+     * A source which will have reached its end is given the position 0, to play again from the start.
+     * @param source the playing source
+     * @param when AudioContext time, not before now
+     * @returns position in seconds, `-1` if it cannot be determined
+     */
+    private positionAt(source: AudioSourceNode, when: number): number {
+        if (!source.buffer) {
+            return -1;
+        }
+        if (when <= this.playbackStartTime) {
+            return this.playbackStartOffset;
+        }
+
+        const segment = this.playheadSegments(source, source.buffer, when).at(-1);
+        if (!segment) {
+            return -1;
+        }
+        const position = Math.min(segment.start + (when - segment.time) * segment.rate, segment.end);
+        return position >= source.buffer.duration ? 0 : position;
+    }
+
     playSource(path: string): AudioSourceNode;
     playSource(path: string, delay: number, offset?: number, duration?: number): AudioSourceNode;
     playSource(
@@ -633,22 +1104,52 @@ class TrackSingle implements Track {
         return audioSource;
     }
 
-    public loadSource(path: string): AudioSourceNode;
+    public loadSource(path: string, useCache?: boolean): AudioSourceNode;
     public loadSource(source: AudioSourceNode): AudioSourceNode;
-    public loadSource(pathOrSource: string | AudioSourceNode): AudioSourceNode {
+    public loadSource(pathOrSource: string | AudioSourceNode, useCache: boolean = true): AudioSourceNode {
         if (this.loadedSource?.owner == this) {
             this.loadedSource.destroy();
         }
+        this.sourceGeneration++;
         if (typeof pathOrSource == 'string') {
-            this.loadedSource = new AudioSourceNode(this.audioContext, this);
-            this.loadedSource.load(pathOrSource);
+            this.loadedSource = this.newSource(pathOrSource, useCache);
         } else {
             this.loadedSource = pathOrSource;
+            this.watchSourceError(pathOrSource);
         }
         this.isLoadSourceCalled = true;
         return this.loadedSource;
     }
 
+    /**
+     * Creates a source owned by this track and loads the path onto it, through the cache if the
+     * track has one.
+     * @param path audio source path
+     * @param useCache `false` to skip the cache
+     * @returns the new source
+     */
+    private newSource(path: string, useCache: boolean): AudioSourceNode {
+        const source = new AudioSourceNode(this.audioContext, this);
+        source.addEventListener('error', this.onSourceError, { once: true });
+        // Failures are reported with the error event, the rejection is handled there
+        const loading = this.cache ? source.load(path, this.cache, useCache) : source.load(path);
+        loading.catch(() => {});
+        return source;
+    }
+
+    /**
+     * Emits the load error event if a source given to this track fails to load. A source which has
+     * already failed is reported asynchronously, so that listeners added right after receive it.
+     * @param source source given to this track
+     */
+    private watchSourceError(source: AudioSourceNode): void {
+        if (source.isFailed) {
+            setTimeout(() => this.events.emit(this, TrackEventType.LOAD_ERROR, source, source.loadError), 0);
+        } else if (!source.isLoaded) {
+            source.addEventListener('error', this.onSourceError, { once: true });
+        }
+    }
+
     public getActiveSource(): AudioSourceNode | null {
         return this.playingSource ?? null;
     }
@@ -657,6 +1158,11 @@ class TrackSingle implements Track {
         return this.loadedSource ?? null;
     }
 
+    public fallback(source: string | AudioSourceNode | null): Track {
+        this.fallbackSource = source;
+        return this;
+    }
+
     swap(): Track;
     swap(delay: number, offset?: number, duration?: number): Track;
     swap(options: TrackSwapOptions | TrackSwapAdvancedOptions, offset?: number, duration?: number): Track;
@@ -696,14 +1202,14 @@ class TrackSingle implements Track {
 
         if (originalSource) {
             this.gainSecondaryNode.gain.value = this.gainPrimaryNode.gain.value;
+            originalSource.disconnect(); // may be connected through a jump
             originalSource.connect(this.gainSecondaryNode);
-            originalSource.disconnect(this.gainPrimaryNode);
             originalSource.stop(this._time + swapOptions.oldSource.delay + swapOptions.oldSource.duration);
             automation(this.audioContext, this.gainSecondaryNode.gain, 0, swapOptions.oldSource);
             if (originalSource.owner == this) {
                 setTimeout(
-                    originalSource.destroy,
-                    swapOptions.oldSource.delay + swapOptions.oldSource.duration,
+                    () => originalSource.destroy(),
+                    1000 * (swapOptions.oldSource.delay + swapOptions.oldSource.duration),
                 );
             }
         }
@@ -721,18 +1227,40 @@ class TrackSingle implements Track {
         return this;
     }
 
-    public loop(enabled: boolean, startSample?: number, endSample?: number): Track {
-        const source = this.playingSource ?? this.loadedSource;
-        this.lastLoopCallTime = this.audioContext.currentTime;
-        if (source && !source.isDestroyed) {
-            if (source.buffer?.sampleRate) {
-                source.loop = enabled;
-                if (startSample != undefined) {
-                    source.loopStart = startSample / source.buffer.sampleRate;
-                }
-                if (endSample != undefined) {
-                    source.loopEnd = endSample / source.buffer.sampleRate;
-                }
+    public duck(volume: number, options?: AudioAdjustmentOptions): Track {
+        automation(
+            this.audioContext,
+            this.duckNode.gain,
+            volume,
+            buildOptions(options, defaults.automationDefault),
+        );
+        return this;
+    }
+
+    public send(bus: Bus, level: number, options?: TrackSendOptions): Track {
+        applySend(this.audioContext, this.sends, bus, level, options, this.effectChain.output, this.duckNode);
+        return this;
+    }
+
+    public effects(): EffectChain {
+        return this.effectChain;
+    }
+
+    public loop(enabled: boolean, startSample?: number, endSample?: number): Track {
+        const source = this.playingSource ?? this.loadedSource;
+        this.lastLoopCallTime = this.audioContext.currentTime;
+        if (source && !source.isDestroyed) {
+            if (source.buffer?.sampleRate) {
+                if (source == this.playingSource) {
+                    this.anchorPlayhead();
+                }
+                source.loop = enabled;
+                if (startSample != undefined) {
+                    source.loopStart = startSample / source.fileSampleRate;
+                }
+                if (endSample != undefined) {
+                    source.loopEnd = endSample / source.fileSampleRate;
+                }
             } else if (!source.isLoaded) {
                 const self = this;
                 const expectedCallTime = this.lastLoopCallTime;
@@ -764,41 +1292,744 @@ class TrackSingle implements Track {
     }
 
     public jump(enabled: boolean, fromSample?: number, toSample?: number): Track {
-        console.log(`stub jump ${enabled} from ${fromSample} to ${toSample}`);
+        this.anchorPlayhead();
+        if (fromSample != undefined) {
+            this.jumpFromSample = fromSample;
+        }
+        if (toSample != undefined) {
+            this.jumpToSample = toSample;
+        }
+
+        if (enabled && this.jumpFromSample == this.jumpToSample) {
+            console.warn(
+                `Cannot jump from sample ${this.jumpFromSample} to itself. This is likely a mistake.`,
+            );
+            enabled = false;
+        }
+
+        this.jumpEnabled = enabled;
+        this.jumpGeneration = this.sourceGeneration;
+        this.scheduleLookahead();
+        return this;
+    }
+
+    public seek(position: number | { sample: number }, options?: AudioAdjustmentOptions): Track {
+        const target = typeof position == 'number' ? position : position.sample;
+        if (!Number.isFinite(target) || target < 0) {
+            const unit = typeof position == 'number' ? 'seconds' : 'sample';
+            console.warn(`Cannot seek to ${unit} ${target}. This is likely a mistake.`);
+            return this;
+        }
+
+        const source = this.playingSource;
+        if (!source?.isActive || !source.buffer) {
+            this.seekTarget = typeof position == 'number' ? position : { sample: position.sample };
+            return this;
+        }
+        const seconds = this.seekSeconds(source, position);
+        this.seekTarget = null;
+
+        const adjustment = buildOptions(options, defaults.seekDefault);
+        const when = Math.max(this._time + adjustment.delay, this.playbackStartTime);
+        adjustment.delay = 0;
+        this.jumpAt(when, seconds, { oldSource: adjustment, newSource: structuredClone(adjustment) });
+
+        // Beats generated past the seek belong to the old position
+        for (const rule of this.beats) {
+            if (rule.lastGenerated >= when) {
+                rule.lastGenerated = -1;
+            }
+        }
+        this.scheduleLookahead();
         return this;
     }
 
     public createBeat(type: TrackBeatType, origin: number, period?: number): TrackBeat {
-        console.log(`stub createBeat of ${type} at ${origin} with period ${period}`);
-        return { time: 0, isCancelled: false, cancel: () => {} };
+        if (!Object.values(TrackBeatType).includes(type)) {
+            throw new TypeError(`Unknown beat type "${type}".`);
+        }
+        if (!Number.isFinite(origin) || origin < 0) {
+            throw new RangeError(`The beat origin ${origin} must be a positive number of seconds.`);
+        }
+        if (type != TrackBeatType.PRECISE && (period == undefined || !(period > 0))) {
+            throw new RangeError(
+                `The beat period ${period} must be a positive number of seconds for ${type} beats.`,
+            );
+        }
+
+        const rule = new TrackBeatRule(type, origin, period ?? 0, this.sourceGeneration);
+        this.beats.push(rule);
+
+        if (this.lookaheadTimer == null) {
+            this.scheduleLookahead();
+        }
+
+        return rule;
     }
 
     public clearBeats(): Track {
-        console.log('stub clearBeats');
+        for (const rule of this.beats) {
+            rule.cancel();
+        }
+        this.beats = [];
         return this;
     }
 
     public syncPlayTo(track: Track, options?: AudioAdjustmentOptions): Track {
-        console.log(`stub syncPlayTo ${track} with options ${options}`);
+        const target = TrackSingle.beatTrack(track);
+        if (!target) {
+            console.warn(
+                `Cannot synchronize to ${track}, it does not generate beats. This is likely a mistake.`,
+            );
+            return this;
+        }
+
+        const sync = (beat: TrackBeat) => {
+            if (this.pendingPlaySync != sync) {
+                return;
+            }
+            this.pendingPlaySync = null;
+
+            const startOptions = buildOptions(options, defaults.startImmediate);
+            startOptions.delay += Math.max(0, beat.time - this._time);
+            this.start(startOptions);
+
+            // Rapidly stop if the beat was cancelled before it happened
+            const source = this.playingSource;
+            const expectedStartTime = this.playbackStartTime;
+            setTimeout(
+                () => {
+                    if (
+                        beat.isCancelled &&
+                        source == this.playingSource &&
+                        this.playbackStartTime - expectedStartTime < Number.EPSILON
+                    ) {
+                        this.stop();
+                    }
+                },
+                1000 * (beat.time - this._time),
+            );
+        };
+
+        this.pendingPlaySync = sync;
+        target.beatSyncs.push(sync);
+        target.scheduleLookahead();
         return this;
     }
 
     public syncStopTo(track: Track, options?: AudioAdjustmentOptions): Track {
-        console.log(`stub syncStopTo ${track} with options ${options}`);
+        const target = TrackSingle.beatTrack(track);
+        if (!target) {
+            console.warn(
+                `Cannot synchronize to ${track}, it does not generate beats. This is likely a mistake.`,
+            );
+            return this;
+        }
+
+        const sync = (beat: TrackBeat) => {
+            if (this.pendingStopSync != sync) {
+                return;
+            }
+            this.pendingStopSync = null;
+
+            const source = this.playingSource;
+            if (!source?.isActive) {
+                return;
+            }
+
+            // Only fade out for now, the source is stopped once the beat is known to be active
+            const stopOptions = buildOptions(options, defaults.stopImmediate);
+            stopOptions.delay += Math.max(0, beat.time - this._time);
+            const fadeStartTime = this._time + stopOptions.delay;
+            const stopTime = fadeStartTime + stopOptions.duration;
+            automation(this.audioContext, this.gainPrimaryNode.gain, 0, stopOptions, true);
+
+            setTimeout(
+                () => {
+                    if (source != this.playingSource || !source.isActive) {
+                        return;
+                    }
+                    if (beat.isCancelled) {
+                        // Cancel the fade out, the volume only needs restoring if it has begun
+                        const gain = this.gainPrimaryNode.gain;
+                        if (this._time < fadeStartTime) {
+                            gain.cancelScheduledValues(fadeStartTime);
+                        } else {
+                            gain.cancelAndHoldAtTime(this._time);
+                            automation(this.audioContext, gain, 1, defaults.startImmediate);
+                        }
+                        return;
+                    }
+                    this.events.emit(this, TrackEventType.STOP_PLAYBACK, {
+                        ...stopOptions,
+                        delay: Math.max(0, fadeStartTime - this._time),
+                    });
+                    this.stopPlayingSource(stopTime);
+                },
+                1000 * (beat.time - this._time),
+            );
+        };
+
+        this.pendingStopSync = sync;
+        target.beatSyncs.push(sync);
+        target.scheduleLookahead();
         return this;
     }
 
-    public listenFor(type: TrackEventType, callback: Promise<any>): Track {
-        console.log(`stub listenFor ${type} calling ${callback}`);
+    public listenFor<T extends TrackEventType>(type: T, callback: TrackEventCallbacks[T]): TrackListener {
+        return this.events.listen(type, callback);
+    }
+
+    /**
+     * Starts the playing source once it loads, or starts the fallback if it fails to load. Does
+     * nothing if start() is called again in the meantime.
+     * @param startOptions adjustment parameters passed to start()
+     * @param offset offset into the source to start playback from, in seconds
+     */
+    private startWhenLoaded(
+        startOptions: Required<AudioAdjustmentOptions>,
+        offset: number | { sample: number },
+    ): void {
+        const source = this.playingSource!;
+        // The error event has already been dispatched, so there is nothing to wait for
+        if (source.isFailed) {
+            this.startFallback(source, startOptions);
+            return;
+        }
+
+        const expectedCallTime = this.lastStartCallTime;
+        source.addEventListener(
+            'loaded',
+            (event) => {
+                if (!event.target.isDestroyed && this.lastStartCallTime - expectedCallTime < Number.EPSILON) {
+                    this.startPlayingSource(
+                        this._time + startOptions.delay,
+                        this.seekSeconds(source, offset),
+                    );
+                }
+            },
+            { once: true },
+        );
+        source.addEventListener(
+            'error',
+            () => {
+                if (
+                    this.playingSource == source &&
+                    this.lastStartCallTime - expectedCallTime < Number.EPSILON
+                ) {
+                    this.startFallback(source, startOptions);
+                }
+            },
+            { once: true },
+        );
+    }
+
+    /**
+     * Replaces a playing source that failed to load with the fallback, or with silence if there
+     * is no fallback or the fallback itself failed.
+     * @param failed the source that failed to load
+     * @param startOptions adjustment parameters passed to start()
+     */
+    private startFallback(failed: AudioSourceNode, startOptions: Required<AudioAdjustmentOptions>): void {
+        this.playingSource = undefined;
+        if (failed.owner == this) {
+            failed.destroy();
+        }
+
+        let source: AudioSourceNode | null = null;
+        if (failed != this.fallbackNode) {
+            if (typeof this.fallbackSource == 'string') {
+                source = this.newSource(this.fallbackSource, true);
+            } else if (this.fallbackSource?.buffer) {
+                source = this.fallbackSource.clone(this);
+            } else if (this.fallbackSource) {
+                console.warn(
+                    'Track fallback source is not loaded, playing silence instead. This is likely a mistake.',
+                );
+            }
+        }
+
+        if (!source) {
+            this.events.emit(this, TrackEventType.SILENCED, this._time);
+            return;
+        }
+
+        this.fallbackNode = source;
+        this.playingSource = source;
+        source.connect(this.gainPrimaryNode);
+        if (source.buffer) {
+            this.startPlayingSource(this._time + startOptions.delay, 0);
+        } else {
+            this.startWhenLoaded(startOptions, 0);
+        }
+    }
+
+    /**
+     * Starts the playing source, remembering when and where it starts so that beats and
+     * jumps can be scheduled before the source is audible.
+     * @param when AudioContext time to start playback
+     * @param offset offset into the source to start playback from, in seconds
+     */
+    private startPlayingSource(when: number, offset: number): void {
+        if (!this.playingSource) {
+            return;
+        }
+
+        this.playingSource.start(when, offset);
+        this.playingSource.addEventListener('ended', this.onSourceEnded);
+        this.playbackStartTime = when;
+        this.playbackStartOffset = offset;
+
+        for (const rule of this.beats) {
+            rule.lastGenerated = -1;
+        }
+        this.scheduleLookahead();
+
+        if (this.positionFrame == null) {
+            this.positionFrame = requestAnimationFrame(this.updatePosition);
+        }
+    }
+
+    /**
+     * Generates beats and schedules jumps that will occur within the lookahead time, assigning
+     * the beat time to each rule. Repeats every `lookaheadInterval` for as long as the playing
+     * source is active, and there are beat rules or an enabled jump to look ahead for.
+     */
+    private scheduleLookahead(): void {
+        if (this.lookaheadTimer != null) {
+            clearTimeout(this.lookaheadTimer);
+            this.lookaheadTimer = null;
+        }
+
+        this.beats = this.beats.filter((rule) => !rule.isCancelled);
+        const generators = this.beats.filter((rule) => rule.type != TrackBeatType.EXCLUDE);
+        const exclusions = this.beats.filter((rule) => rule.type == TrackBeatType.EXCLUDE);
+
+        const source = this.playingSource;
+        if (!source || source.isDestroyed || !source.isActive || !source.buffer) {
+            return;
+        }
+        if (!generators.length && !this.jumpEnabled) {
+            return;
+        }
+
+        this.lookaheadTimer = setTimeout(() => this.scheduleLookahead(), this.lookaheadInterval);
+
+        const generated: { rule: TrackBeatRule; time: number }[] = [];
+        let isJumpScheduled = false;
+        let endTime = this._time + this.lookahead;
+        if (this.nextStopTime > this.playbackStartTime) {
+            endTime = Math.min(endTime, this.nextStopTime);
+        }
+        for (const segment of this.playheadSegments(source, source.buffer, endTime)) {
+            for (const rule of generators) {
+                for (const beat of rule.beatsBetween(segment.start, segment.end)) {
+                    if (exclusions.some((exclusion) => exclusion.excludes(beat))) {
+                        continue;
+                    }
+                    const beatTime = segment.time + (beat - segment.start) / segment.rate;
+                    if (rule.lastGenerated >= 0 && beatTime < rule.lastGenerated + this.beatTolerance) {
+                        continue;
+                    }
+                    rule.lastGenerated = beatTime;
+                    generated.push({ rule, time: beatTime });
+                }
+            }
+
+            if (segment.jumps && !isJumpScheduled) {
+                isJumpScheduled = true;
+                this.jumpAt(
+                    segment.time + (segment.end - segment.start) / segment.rate,
+                    this.jumpToSample / source.fileSampleRate,
+                );
+            }
+        }
+
+        generated.sort((a, b) => a.time - b.time);
+        for (const beat of generated) {
+            beat.rule.time = beat.time;
+            this.dispatchBeat(scheduledBeat(beat.rule, beat.time));
+        }
+    }
+
+    /**
+     * Follows the playhead of the playing source from now until `endTime`, splitting it into
+     * continuous segments of the source. A segment ends where the source loops, jumps, or reaches its end.
+     *
+     * The playhead is followed from the start of playback at the current playback rate, rather than
+     * read from the source, which reports its position late by the size of its analyser. Before
+     * playback begins, the playhead is the offset the source will start from.
+     * @param source the playing source
+     * @param buffer buffer of the playing source
+     * @param endTime AudioContext time to follow the playhead until
+     * @returns segments in playback order, empty if the playhead cannot be determined
+     */
+    private playheadSegments(
+        source: AudioSourceNode,
+        buffer: AudioBuffer,
+        endTime: number,
+    ): PlayheadSegment[] {
+        const rate = source.playbackRate.value * 2 ** (source.detune.value / 1200);
+        if (rate <= 0) {
+            return [];
+        }
+
+        const duration = buffer.duration;
+        const loopStart = source.loopStart;
+        const loopEnd = source.loopEnd > 0 ? Math.min(source.loopEnd, duration) : duration;
+        const isLooping = source.loop && loopEnd > loopStart;
+        const jumpFrom = this.jumpFromSample / source.fileSampleRate;
+        const jumpTo = this.jumpToSample / source.fileSampleRate;
+
+        const from = Math.max(this._time, this.playbackStartTime);
+        let time = this.playbackStartTime;
+        let position = this.playbackStartOffset;
+
+        // Times the playhead last moved to a position by looping or jumping, to skip repeated cycles
+        const wrapTimes: Map<number, number> = new Map();
+
+        const segments: PlayheadSegment[] = [];
+        while (time < endTime) {
+            const end = Math.min(position + (endTime - time) * rate, duration);
+
+            let boundary = Infinity;
+            let next = 0;
+            let jumps = false;
+            if (isLooping && position < loopEnd) {
+                boundary = loopEnd;
+                next = loopStart;
+            }
+            if (this.jumpEnabled && position < jumpFrom && jumpFrom < boundary) {
+                boundary = jumpFrom;
+                next = jumpTo;
+                jumps = true;
+            }
+
+            const segmentEnd = Math.min(boundary, end);
+            const segmentEndTime = time + (segmentEnd - position) / rate;
+            const reachesEndTime = boundary > end && segmentEnd < duration;
+            if (segmentEndTime > from || (reachesEndTime && endTime >= from)) {
+                if (time < from) {
+                    // Begins before now, only follow it from now
+                    position += (from - time) * rate;
+                    time = from;
+                }
+                segments.push({
+                    time,
+                    start: position,
+                    end: segmentEnd,
+                    rate,
+                    jumps: jumps && boundary <= end,
+                });
+            }
+
+            if (boundary > end) {
+                break;
+            }
+
+            time = segmentEndTime;
+            position = next;
+
+            const lastWrapTime = wrapTimes.get(next);
+            wrapTimes.set(next, time);
+            if (lastWrapTime != undefined && time < from) {
+                const cycle = time - lastWrapTime;
+                time += Math.floor((from - time) / cycle) * cycle;
+            }
+        }
+        return segments;
+    }
+
+    /**
+     * Restarts the playing source on a continuation of it, so the effects of the source carry over.
+     * The fades and delays are those of a swap, relative to now.
+     * @param swapOptions fades of the playing source and its continuation
+     * @param offset offset into the source to restart from, in seconds
+     * @param duration how long to play before stopping
+     * @returns {Track} this Track
+     */
+    private restartPlayingSource(
+        swapOptions: TrackSwapAdvancedOptions,
+        offset?: number,
+        duration?: number,
+    ): Track {
+        const source = this.playingSource!;
+        const startDelay = swapOptions.newSource.delay;
+        const when = this._time + startDelay;
+        swapOptions.oldSource.delay -= startDelay;
+        swapOptions.newSource.delay = 0;
+
+        this.nextStopTime = 0;
+        this.jumpAt(when, this.seekSeconds(source, offset || 0), swapOptions);
+
+        // Beats restart from the offset
+        for (const rule of this.beats) {
+            rule.lastGenerated = -1;
+        }
+        this.scheduleLookahead();
+
+        const startOptions = { ...swapOptions.newSource, delay: startDelay };
+        automation(this.audioContext, this.gainPrimaryNode.gain, 1, startOptions, true);
+        this.events.emit(this, TrackEventType.START_PLAYBACK, startOptions);
+
+        this.resumeMarker = 0;
+        this.seekTarget = null;
+        this.pauseOptions = null;
+
+        if (duration != undefined) {
+            this.stop(startDelay + duration);
+        }
+
         return this;
     }
 
+    /**
+     * Schedules a CUT from the playing source to a new source sharing the same buffer. The new
+     * source becomes the playing source immediately, but only starts playback at `when`.
+     *
+     * The new source continues the playing source, see {@link AudioSourceNode#continueAt}, so it
+     * keeps the effects of the source and start and stop automations on the track apply to both.
+     * @param when AudioContext time of the jump
+     * @param offset offset into the source to jump to, in seconds
+     * @param swapOptions fades of both sources relative to `when`, a CUT by default
+     */
+    private jumpAt(when: number, offset: number, swapOptions?: TrackSwapAdvancedOptions): void {
+        const original = this.playingSource;
+        if (!original?.buffer || original.isDestroyed) {
+            return;
+        }
+
+        const cutOptions = swapOptions ?? buildOptions(null, defaults.trackSwapCut);
+        cutOptions.oldSource.delay += when - this._time;
+        cutOptions.newSource.delay += when - this._time;
+
+        const jumpSource = original.continueAt(
+            this,
+            when,
+            offset,
+            cutOptions.oldSource,
+            cutOptions.newSource,
+        );
+        if (original.owner == this) {
+            setTimeout(
+                () => original.destroy(),
+                1000 * (cutOptions.oldSource.delay + cutOptions.oldSource.duration) + this.lookaheadInterval,
+            );
+        }
+
+        jumpSource.addEventListener('ended', this.onSourceEnded);
+        if (this.nextStopTime > when) {
+            jumpSource.stop(this.nextStopTime);
+        }
+
+        this.playingSource = jumpSource;
+        this.playbackStartTime = when;
+        this.playbackStartOffset = offset;
+    }
+
+    /**
+     * Passes a generated beat to the tracks waiting to synchronize on it, then emits the beat
+     * event. Synchronizations only ever happen on the first beat generated after they are requested.
+     * @param beat the generated beat
+     */
+    private dispatchBeat(beat: TrackBeat): void {
+        const syncs = this.beatSyncs;
+        this.beatSyncs = [];
+        for (const sync of syncs) {
+            try {
+                sync(beat);
+            } catch (err) {
+                console.error(`An exception occurred while synchronizing to a beat on ${this}:`);
+                console.error(err);
+            }
+        }
+        this.events.emit(this, TrackEventType.BEAT, beat);
+    }
+
+    /**
+     * Retrieve the track that generates beats for the given track. For groups, this is the
+     * primary track of the group.
+     * @param track track to resolve
+     * @returns the {@link TrackSingle} generating beats, `null` if there is none
+     */
+    private static beatTrack(track: Track): TrackSingle | null {
+        while (track instanceof TrackGroup) {
+            track = track.primaryTrack();
+        }
+        return track instanceof TrackSingle ? track : null;
+    }
+
     private get _time(): number {
         return this.audioContext.currentTime;
     }
 }
 // #endregion TrackSingle
 
+/**
+ * A continuous segment of playback through a source, see `TrackSingle.playheadSegments()`
+ */
+type PlayheadSegment = {
+    /** AudioContext time that playback reaches `start` */
+    time: number;
+    /** Start of the segment in the source, in seconds */
+    start: number;
+    /** End of the segment in the source, in seconds */
+    end: number;
+    /** Playback rate of the source */
+    rate: number;
+    /** `true` if the segment ends with a jump */
+    jumps: boolean;
+};
+
+// #region TrackBeat
+/**
+ * A beat rule, created by {@link Track#createBeat}. The `time` is the AudioContext time of the most
+ * recent beat generated by this rule, or `-1` if it has not generated a beat.
+ */
+class TrackBeatRule implements TrackBeat {
+    public time: number = -1;
+    public isCancelled: boolean = false;
+
+    /**
+     * AudioContext time of the last beat generated during the current playback, used by the
+     * Track to avoid generating the same beat twice. `-1` when no beat has been generated.
+     */
+    public lastGenerated: number = -1;
+
+    /**
+     * @param type beat type
+     * @param origin origin point for this beat or range, in seconds
+     * @param period duration (exclude) or period (repeating), in seconds
+     * @param generation the source generation of the Track when this rule was created
+     */
+    constructor(
+        readonly type: TrackBeatType,
+        readonly origin: number,
+        readonly period: number,
+        readonly generation: number,
+    ) {}
+
+    public cancel(): void {
+        this.isCancelled = true;
+    }
+
+    /**
+     * Computes the source times of beats generated by this rule within `[from, to)`.
+     * Exclusion rules never generate beats.
+     * @param from start of the range, in seconds
+     * @param to end of the range, in seconds
+     * @returns source times of the generated beats, in order
+     */
+    public beatsBetween(from: number, to: number): number[] {
+        const beats: number[] = [];
+        switch (this.type) {
+            case TrackBeatType.PRECISE: {
+                if (this.origin >= from && this.origin < to) {
+                    beats.push(this.origin);
+                }
+                break;
+            }
+            case TrackBeatType.REPEATING: {
+                const first = Math.max(0, Math.ceil((from - this.origin) / this.period));
+                for (let index = first; this.origin + index * this.period < to; index++) {
+                    beats.push(this.origin + index * this.period);
+                }
+                break;
+            }
+        }
+        return beats;
+    }
+
+    /**
+     * @param time source time, in seconds
+     * @returns `true` if this is an exclusion rule, and the time falls within its range
+     */
+    public excludes(time: number): boolean {
+        return this.type == TrackBeatType.EXCLUDE && time >= this.origin && time < this.origin + this.period;
+    }
+}
+
+/**
+ * Creates the {@link TrackBeat} for a beat generated by a rule. Cancelling the beat cancels the rule.
+ * @param rule the rule that generated the beat
+ * @param time AudioContext time of the beat
+ */
+function scheduledBeat(rule: TrackBeatRule, time: number): TrackBeat {
+    return {
+        time,
+        get isCancelled() {
+            return rule.isCancelled;
+        },
+        cancel() {
+            rule.cancel();
+        },
+    };
+}
+// #endregion TrackBeat
+
+// #region TrackSend
+/**
+ * A send from a track to a bus
+ */
+type TrackSend = {
+    /** Level of the send, connected to the input of the bus */
+    gainNode: GainNode;
+    /** `true` if the send is connected before the track volume */
+    preFader: boolean;
+};
+
+/**
+ * Creates or adjusts the send to a bus, shared by tracks and groups.
+ * @param audioContext
+ * @param sends sends of the track, updated with the new send
+ * @param bus bus to send to
+ * @param level gain multiplier of the send
+ * @param options adjustment parameters, and where the send is taken from
+ * @param preFaderNode node to take a pre-fader send from
+ * @param postFaderNode node to take a post-fader send from
+ */
+function applySend(
+    audioContext: AudioContext,
+    sends: Map<Bus, TrackSend>,
+    bus: Bus,
+    level: number,
+    options: TrackSendOptions | undefined,
+    preFaderNode: AudioNode,
+    postFaderNode: AudioNode,
+): void {
+    if (!Number.isFinite(level) || level < 0) {
+        console.warn(`Send level must be a non-negative number, got ${level}. This is likely a mistake.`);
+        return;
+    }
+
+    const preFader = options?.preFader;
+    let send = sends.get(bus);
+    if (!send) {
+        const gainNode = audioContext.createGain();
+        gainNode.gain.value = 0;
+        gainNode.connect(bus.input);
+        send = { gainNode, preFader: preFader ?? false };
+        sends.set(bus, send);
+        (send.preFader ? preFaderNode : postFaderNode).connect(gainNode);
+    } else if (preFader != undefined && preFader != send.preFader) {
+        const gainNode = send.gainNode;
+        (send.preFader ? preFaderNode : postFaderNode).disconnect(gainNode);
+        (preFader ? preFaderNode : postFaderNode).connect(gainNode);
+        send.preFader = preFader;
+    }
+
+    automation(audioContext, send.gainNode.gain, level, buildOptions(options, defaults.automationDefault));
+}
+// #endregion TrackSend
+
+// #region TrackEvents
+/**
+ * Listener registry for track events. The registry of a group is the parent of the registries of
+ * its tracks, so that the group receives their events.
+ */
+type TrackEvents = EventRegistry<TrackEventCallbacks>;
+// #endregion TrackEvents
+
 // #region TrackGroup
 /**
  * TrackGroup. All TrackGroups are constructed with a primary Track that shares the same name as the group,
@@ -810,18 +2041,54 @@ class TrackGroup implements Track {
         [name: string]: Track;
     } = {};
 
+    /**
+     * Sum of the tracks in this group, before the group volume
+     */
+    private readonly inputNode: GainNode;
+
     private readonly gainNode: GainNode;
 
+    /**
+     * Gain after the group volume, controlled by duck rules
+     */
+    private readonly duckNode: GainNode;
+
+    /**
+     * Sends of this group, see {@link send}
+     */
+    private readonly sends: Map<Bus, TrackSend> = new Map();
+
+    /**
+     * Insert effects between the tracks and the group volume
+     */
+    private readonly effectChain: EffectChain;
+
+    /**
+     * Event listeners for this group, receiving the events of all tracks in the group
+     */
+    private readonly events: TrackEvents = new EventRegistry();
+
+    /**
+     * Fallback given to the tracks of this group
+     */
+    private fallbackSource: string | AudioSourceNode | null = null;
+
     constructor(
         private readonly name: string,
         private readonly audioContext: AudioContext,
         destination: AudioNode,
+        private readonly cache: AudioSourceCache | null,
         source?: AudioSourceNode,
     ) {
+        this.inputNode = audioContext.createGain();
         this.gainNode = audioContext.createGain();
-        this.gainNode.connect(destination);
+        this.duckNode = audioContext.createGain();
+        this.effectChain = new EffectChain(audioContext, this.inputNode);
+        this.effectChain.output.connect(this.gainNode);
+        this.gainNode.connect(this.duckNode);
+        this.duckNode.connect(destination);
 
-        const track = new TrackSingle(name, audioContext, this.gainNode, source);
+        const track = new TrackSingle(name, audioContext, this.inputNode, cache, source, this.events);
         this.tracks[name] = track;
     }
 
@@ -837,9 +2104,9 @@ class TrackGroup implements Track {
         inputIndex?: number,
     ): AudioNode | void {
         if (destination instanceof AudioNode) {
-            return this.gainNode.connect(destination, outputIndex, inputIndex);
+            return this.duckNode.connect(destination, outputIndex, inputIndex);
         } else if (destination instanceof AudioParam) {
-            return this.gainNode.connect(destination, outputIndex);
+            return this.duckNode.connect(destination, outputIndex);
         } else {
             console.warn(
                 `Cannot connect to type ${(destination as any)?.constructor?.name}. This is likely a mistake.`,
@@ -847,6 +2114,18 @@ class TrackGroup implements Track {
         }
     }
 
+    public disconnect(destination: AudioNode | AudioParam): void {
+        if (destination instanceof AudioNode) {
+            this.duckNode.disconnect(destination);
+        } else if (destination instanceof AudioParam) {
+            this.duckNode.disconnect(destination);
+        } else {
+            console.warn(
+                `Cannot disconnect from type ${(destination as any)?.constructor?.name}. This is likely a mistake.`,
+            );
+        }
+    }
+
     /**
      * Retrieve a track by its name.
      *
@@ -887,7 +2166,15 @@ class TrackGroup implements Track {
             throw new Error(`Cannot use name "${name}" as it already exists in this group track`);
         }
 
-        const track = new TrackSingle(name, this.audioContext, this.gainNode);
+        const track = new TrackSingle(
+            name,
+            this.audioContext,
+            this.inputNode,
+            this.cache,
+            undefined,
+            this.events,
+        );
+        track.fallback(this.fallbackSource);
         if (pathOrSource != undefined) {
             // @ts-expect-error This is just a pass-through to the single track loadSource()
             track.loadSource(pathOrSource);
@@ -935,6 +2222,36 @@ class TrackGroup implements Track {
         return this;
     }
 
+    /**
+     * Pauses playback of all tracks in this group.
+     */
+    public pause(): Track;
+    public pause(delay: number): Track;
+    public pause(options: AudioAdjustmentOptions): Track;
+    pause(delayOrOptions?: number | AudioAdjustmentOptions): Track {
+        for (const track in this.tracks) {
+            // @ts-expect-error This is just a pass-through to the single track pause()
+            this.tracks[track]?.pause(delayOrOptions);
+        }
+
+        return this;
+    }
+
+    /**
+     * Resumes playback of all paused tracks in this group.
+     */
+    public resume(): Track;
+    public resume(delay: number): Track;
+    public resume(options: AudioAdjustmentOptions): Track;
+    resume(delayOrOptions?: number | AudioAdjustmentOptions): Track {
+        for (const track in this.tracks) {
+            // @ts-expect-error This is just a pass-through to the single track resume()
+            this.tracks[track]?.resume(delayOrOptions);
+        }
+
+        return this;
+    }
+
     playSource(path: string): AudioSourceNode;
     playSource(path: string, delay: number, offset?: number, duration?: number): AudioSourceNode;
     playSource(
@@ -953,11 +2270,11 @@ class TrackGroup implements Track {
         return this.primaryTrack().playSource(path, delayOrOptions, offset, duration);
     }
 
-    public loadSource(path: string): AudioSourceNode;
+    public loadSource(path: string, useCache?: boolean): AudioSourceNode;
     public loadSource(source: AudioSourceNode): AudioSourceNode;
-    public loadSource(pathOrSource: string | AudioSourceNode): AudioSourceNode {
+    public loadSource(pathOrSource: string | AudioSourceNode, useCache?: boolean): AudioSourceNode {
         // @ts-expect-error This is just a pass-through to the single track loadSource()
-        return this.primaryTrack().loadSource(pathOrSource);
+        return this.primaryTrack().loadSource(pathOrSource, useCache);
     }
 
     public getActiveSource(): AudioSourceNode | null {
@@ -968,6 +2285,17 @@ class TrackGroup implements Track {
         return this.primaryTrack().getLoadedSource();
     }
 
+    /**
+     * Sets the fallback of all tracks in this group, including tracks added later.
+     */
+    public fallback(source: string | AudioSourceNode | null): Track {
+        this.fallbackSource = source;
+        for (const track in this.tracks) {
+            this.tracks[track]?.fallback(source);
+        }
+        return this;
+    }
+
     swap(): Track;
     swap(delay: number, offset?: number, duration?: number): Track;
     swap(options: TrackSwapOptions | TrackSwapAdvancedOptions, offset?: number, duration?: number): Track;
@@ -993,6 +2321,34 @@ class TrackGroup implements Track {
         return this;
     }
 
+    /**
+     * Adjusts the ducking volume of this group.
+     */
+    public duck(volume: number, options?: AudioAdjustmentOptions): Track {
+        automation(
+            this.audioContext,
+            this.duckNode.gain,
+            volume,
+            buildOptions(options, defaults.automationDefault),
+        );
+        return this;
+    }
+
+    /**
+     * Sends the output of this group, the sum of all of its tracks.
+     */
+    public send(bus: Bus, level: number, options?: TrackSendOptions): Track {
+        applySend(this.audioContext, this.sends, bus, level, options, this.effectChain.output, this.duckNode);
+        return this;
+    }
+
+    /**
+     * Returns the effects of this group, processing the sum of all of its tracks.
+     */
+    public effects(): EffectChain {
+        return this.effectChain;
+    }
+
     public loop(enabled: boolean, startSample?: number, endSample?: number): Track {
         this.primaryTrack().loop(enabled, startSample, endSample);
         return this;
@@ -1003,6 +2359,16 @@ class TrackGroup implements Track {
         return this;
     }
 
+    /**
+     * Seeks all tracks in this group, keeping them aligned.
+     */
+    public seek(position: number | { sample: number }, options?: AudioAdjustmentOptions): Track {
+        for (const track in this.tracks) {
+            this.tracks[track]?.seek(position, options);
+        }
+        return this;
+    }
+
     public createBeat(type: TrackBeatType, origin: number, period?: number): TrackBeat {
         return this.primaryTrack().createBeat(type, origin, period);
     }
@@ -1037,12 +2403,15 @@ class TrackGroup implements Track {
         return this;
     }
 
-    public listenFor(type: TrackEventType, callback: Promise<any>): Track {
-        this.primaryTrack().listenFor(type, callback);
-        return this;
+    /**
+     * Listens for events from all tracks in the group. The first argument of the callback is the
+     * track that emitted the event.
+     */
+    public listenFor<T extends TrackEventType>(type: T, callback: TrackEventCallbacks[T]): TrackListener {
+        return this.events.listen(type, callback);
     }
 }
 // #endregion TrackGroup
 
 export default TrackSingle;
-export { Track, TrackGroup };
+export { Track, TrackEvents, TrackGroup };
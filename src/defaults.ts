@@ -1,5 +1,8 @@
 import { TrackSwapOptions, TrackSwapAdvancedOptions, TrackSwapType } from './Track.js';
 import { AudioAdjustmentOptions, AudioRampType } from './automation.js';
+import { CompressorOptions } from './dynamics.js';
+import { AudioLoadOptions } from './load.js';
+import { ReverbOptions } from './Reverb.js';
 
 function buildOptions(
     trackSwapOptions: AudioAdjustmentOptions | TrackSwapOptions | TrackSwapAdvancedOptions | undefined | null,
@@ -13,20 +16,100 @@ function buildOptions(
     pannerOptions: PannerOptions | undefined | null,
     defaultPannerOptions: Required<PannerOptions>,
 ): Required<PannerOptions>;
+function buildOptions(
+    loadOptions: AudioLoadOptions | undefined | null,
+    defaultLoadOptions: Required<AudioLoadOptions>,
+): Required<AudioLoadOptions>;
+function buildOptions(
+    reverbOptions: ReverbOptions | undefined | null,
+    defaultReverbOptions: Required<ReverbOptions>,
+): Required<ReverbOptions>;
+function buildOptions(
+    compressorOptions: CompressorOptions | undefined | null,
+    defaultCompressorOptions: Required<CompressorOptions>,
+): Required<CompressorOptions>;
 function buildOptions(
     options:
         | AudioAdjustmentOptions
         | TrackSwapOptions
         | TrackSwapAdvancedOptions
         | PannerOptions
+        | AudioLoadOptions
+        | ReverbOptions
+        | CompressorOptions
         | undefined
         | null,
-    defaultOptions: Required<AudioAdjustmentOptions> | TrackSwapAdvancedOptions | Required<PannerOptions>,
-): Required<AudioAdjustmentOptions> | TrackSwapAdvancedOptions | Required<PannerOptions> {
+    defaultOptions:
+        | Required<AudioAdjustmentOptions>
+        | TrackSwapAdvancedOptions
+        | Required<PannerOptions>
+        | Required<AudioLoadOptions>
+        | Required<ReverbOptions>
+        | Required<CompressorOptions>,
+):
+    | Required<AudioAdjustmentOptions>
+    | TrackSwapAdvancedOptions
+    | Required<PannerOptions>
+    | Required<AudioLoadOptions>
+    | Required<ReverbOptions>
+    | Required<CompressorOptions> {
     if (!options) {
         return structuredClone(defaultOptions);
     }
 
+    if (isObjectLike(defaultOptions, compressorDefault)) {
+        if (!isObjectLike(options, compressorDefault)) {
+            console.warn('Specified options were not like CompressorOptions. This is likely a mistake.');
+            return structuredClone(defaultOptions);
+        }
+
+        return optionalCopyInto(defaultOptions, options, (key, targetValue, sourceValue: number) => {
+            const [min, max] = compressorRanges[key as keyof CompressorOptions];
+            if (!Number.isFinite(sourceValue) || sourceValue < min || sourceValue > max) {
+                console.warn(
+                    `CompressorOptions.${key} must be a number from ${min} to ${max}. This is likely a mistake.`,
+                );
+                return targetValue;
+            }
+            return sourceValue;
+        });
+    }
+
+    if (isObjectLike(defaultOptions, reverbHall)) {
+        if (!isObjectLike(options, reverbHall)) {
+            console.warn('Specified options were not like ReverbOptions. This is likely a mistake.');
+            return structuredClone(defaultOptions);
+        }
+
+        return optionalCopyInto(defaultOptions, options, (key, targetValue, sourceValue: number) => {
+            const max = key == 'damping' || key == 'width' ? 1 : Infinity;
+            if (!Number.isFinite(sourceValue) || sourceValue < 0 || sourceValue > max) {
+                console.warn(
+                    `ReverbOptions.${key} must be a number from 0 to ${max}. This is likely a mistake.`,
+                );
+                return targetValue;
+            }
+            return sourceValue;
+        });
+    }
+
+    if (isObjectLike(defaultOptions, loadDefault)) {
+        if (!isObjectLike(options, loadDefault)) {
+            console.warn('Specified options were not like AudioLoadOptions. This is likely a mistake.');
+            return structuredClone(defaultOptions);
+        }
+
+        return optionalCopyInto(defaultOptions, options, (key, targetValue, sourceValue: number) => {
+            if (!Number.isFinite(sourceValue) || sourceValue < 0) {
+                console.warn(
+                    `AudioLoadOptions.${key} must be a non-negative number. This is likely a mistake.`,
+                );
+                return targetValue;
+            }
+            return sourceValue;
+        });
+    }
+
     if (isObjectLike(defaultOptions, pannerDefault)) {
         if (!isObjectLike(options, pannerDefault)) {
             console.warn('Specified options were not like PannerOptions. This is likely a mistake.');
@@ -54,16 +137,43 @@ function buildOptions(
             return structuredClone(options);
         }
 
-        const fullOptions = structuredClone(defaultOptions);
-
         if (!isObjectLike(options, trackSwapPlain)) {
             console.warn('Specified options were not like TrackSwapOptions. This is likely a mistake.');
-            return fullOptions;
+            return structuredClone(defaultOptions);
+        }
+
+        let fullOptions: TrackSwapAdvancedOptions;
+        switch (options.swap) {
+            case TrackSwapType.IN_OUT:
+                fullOptions = structuredClone(trackSwapInOut);
+                break;
+            case TrackSwapType.OUT_IN:
+                fullOptions = structuredClone(trackSwapOutIn);
+                break;
+            case TrackSwapType.CROSS:
+                fullOptions = structuredClone(trackSwapCross);
+                break;
+            case TrackSwapType.CUT:
+                fullOptions = structuredClone(trackSwapCut);
+                break;
+            case null:
+            case undefined:
+                fullOptions = structuredClone(defaultOptions);
+                break;
+            default:
+                console.warn(`Unknown swap type "${options.swap}". This is likely a mistake.`);
+                fullOptions = structuredClone(defaultOptions);
         }
 
-        if ('ramp' in options) {
-            fullOptions.oldSource.ramp = options.ramp;
-            fullOptions.newSource.ramp = options.ramp;
+        if ('ramp' in options && options.ramp != undefined) {
+            // Equal power ramps only crossfade correctly as a pair
+            if (options.ramp == AudioRampType.EQUAL_POWER || options.ramp == AudioRampType.EQUAL_POWER_IN) {
+                fullOptions.oldSource.ramp = AudioRampType.EQUAL_POWER;
+                fullOptions.newSource.ramp = AudioRampType.EQUAL_POWER_IN;
+            } else {
+                fullOptions.oldSource.ramp = options.ramp;
+                fullOptions.newSource.ramp = options.ramp;
+            }
         }
 
         if ('duration' in options && options.duration) {
@@ -79,6 +189,20 @@ function buildOptions(
             fullOptions.newSource.duration *= markiplier;
         }
 
+        if ('swapDelay' in options && options.swapDelay != undefined) {
+            // IN_OUT ramps the new source first, so the gap comes before the old source instead
+            if (options.swap == TrackSwapType.IN_OUT) {
+                fullOptions.oldSource.delay =
+                    fullOptions.newSource.delay + fullOptions.newSource.duration + options.swapDelay;
+            } else if (options.swap == TrackSwapType.CROSS) {
+                // Both sources ramp at the same time, so the new source is offset from the start instead
+                fullOptions.newSource.delay = fullOptions.oldSource.delay + options.swapDelay;
+            } else {
+                fullOptions.newSource.delay =
+                    fullOptions.oldSource.delay + fullOptions.oldSource.duration + options.swapDelay;
+            }
+        }
+
         if ('delay' in options && options.delay) {
             fullOptions.oldSource.delay += options.delay;
             fullOptions.newSource.delay += options.delay;
@@ -260,6 +384,44 @@ export const stopImmediate: Required<AudioAdjustmentOptions> = Object.freeze({
     duration: 1 / 1_000,
 });
 
+/**
+ * Default behavior for the crossfade when seeking during playback
+ */
+export const seekDefault: Required<AudioAdjustmentOptions> = Object.freeze({
+    ramp: AudioRampType.NATURAL,
+    delay: 0,
+    duration: 3 / 100,
+});
+
+/**
+ * Default behavior for a track ducking when the trigger of a duck rule becomes active
+ */
+export const duckAttack: Required<AudioAdjustmentOptions> = Object.freeze({
+    ramp: AudioRampType.NATURAL,
+    delay: 0,
+    duration: 0.3,
+});
+
+/**
+ * Default behavior for a track returning to full volume when the trigger of a duck rule is no longer
+ * active
+ */
+export const duckRelease: Required<AudioAdjustmentOptions> = Object.freeze({
+    ramp: AudioRampType.NATURAL,
+    delay: 0,
+    duration: 1.2,
+});
+
+/**
+ * Default behavior for the crossfade when changing the effects of an effect chain. Linear, since the
+ * processed audio of most effects is similar to the unprocessed audio.
+ */
+export const effectCrossfade: Required<AudioAdjustmentOptions> = Object.freeze({
+    ramp: AudioRampType.LINEAR,
+    delay: 0,
+    duration: 5 / 100,
+});
+
 /**
  * Behavior for immediate (cut) adjustments. Note that even immediate adjustments take time.
  */
@@ -305,6 +467,98 @@ export const automationDefault: Required<AudioAdjustmentOptions> = Object.freeze
     duration: 1 / 711,
 });
 
+/**
+ * Default behavior for fetching audio files
+ */
+export const loadDefault: Required<AudioLoadOptions> = Object.freeze({
+    retries: 2,
+    retryDelay: 0.5,
+    timeout: 30,
+});
+
+/**
+ * Reverb of a cave, long and bright with strong reflections from the rock
+ */
+export const reverbCave: Required<ReverbOptions> = Object.freeze({
+    decay: 4.5,
+    preDelay: 0.04,
+    damping: 0.3,
+    width: 0.8,
+});
+
+/**
+ * Reverb of a concert hall, the default for a Reverb
+ */
+export const reverbHall: Required<ReverbOptions> = Object.freeze({
+    decay: 2.4,
+    preDelay: 0.025,
+    damping: 0.5,
+    width: 1,
+});
+
+/**
+ * Reverb of a small furnished room, short and muffled
+ */
+export const reverbSmallRoom: Required<ReverbOptions> = Object.freeze({
+    decay: 0.5,
+    preDelay: 0.004,
+    damping: 0.7,
+    width: 0.6,
+});
+
+/**
+ * Reverb outdoors, distant and heavily damped reflections from terrain and trees
+ */
+export const reverbOutdoors: Required<ReverbOptions> = Object.freeze({
+    decay: 0.9,
+    preDelay: 0.07,
+    damping: 0.85,
+    width: 1,
+});
+
+/**
+ * Default behavior for the crossfade when a Reverb changes its impulse response
+ */
+export const reverbCrossfade: Required<AudioAdjustmentOptions> = Object.freeze({
+    ramp: AudioRampType.NATURAL,
+    delay: 0,
+    duration: 0.4,
+});
+
+/**
+ * Valid range of each compressor setting, matching the DynamicsCompressorNode
+ */
+const compressorRanges: { [K in keyof CompressorOptions]-?: [number, number] } = Object.freeze({
+    threshold: [-100, 0],
+    knee: [0, 40],
+    ratio: [1, 20],
+    attack: [0, 1],
+    release: [0, 1],
+});
+
+/**
+ * Default settings for the compressor of a Mixer, gently evening out the loudest moments
+ */
+export const compressorDefault: Required<CompressorOptions> = Object.freeze({
+    threshold: -18,
+    knee: 12,
+    ratio: 3,
+    attack: 0.01,
+    release: 0.25,
+});
+
+/**
+ * Settings for the "night mode" of a Mixer, heavily reducing the dynamic range so that quiet sounds
+ * can be heard without loud sounds being too loud
+ */
+export const compressorNight: Required<CompressorOptions> = Object.freeze({
+    threshold: -36,
+    knee: 6,
+    ratio: 8,
+    attack: 0.005,
+    release: 0.4,
+});
+
 /**
  * Default PannerOptions
  */
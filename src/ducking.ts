@@ -0,0 +1,321 @@
+import { Track, TrackEventType, TrackListener } from './Track.js';
+import { AudioAdjustmentOptions } from './automation.js';
+import buildOptions, * as defaults from './defaults.js';
+
+/**
+ * Milliseconds between level measurements of a trigger followed by its output
+ */
+const FOLLOW_INTERVAL = 20;
+
+/**
+ * Options for a duck rule, see {@link Mixer#duck}
+ */
+export type DuckOptions = {
+    /**
+     * Change in volume of the ducked track while the trigger is active, in decibels. Must not be
+     * positive. Defaults to `-12`.
+     */
+    amount?: number;
+
+    /**
+     * How the ducked track fades down when the trigger becomes active
+     */
+    attack?: AudioAdjustmentOptions;
+
+    /**
+     * How the ducked track fades back up when the trigger is no longer active
+     */
+    release?: AudioAdjustmentOptions;
+
+    /**
+     * Level of the trigger output, in decibels, above which the trigger is active. When set, the
+     * output of the trigger is followed instead of its playback, so the ducked track only dips while
+     * the trigger is audible, such as between lines of dialogue in a single source. `null` to use
+     * playback, where the trigger is active from the start of playback until it goes silent.
+     * Defaults to `null`.
+     */
+    threshold?: number | null;
+
+    /**
+     * Seconds the trigger stays active after its level falls below the threshold, so that short
+     * pauses do not release the ducked track. Only used with a threshold. Defaults to `0.3`.
+     */
+    hold?: number;
+};
+
+/**
+ * Handle returned by {@link Mixer#duck}, used to remove the rule
+ */
+export type DuckRule = {
+    /**
+     * The track that is ducked
+     */
+    readonly target: Track;
+
+    /**
+     * The track that causes the target to duck
+     */
+    readonly trigger: Track;
+
+    /**
+     * `true` while the trigger is active and this rule is ducking the target
+     */
+    readonly isActive: boolean;
+
+    /**
+     * `true` after `remove()` has been called
+     */
+    readonly isRemoved: boolean;
+
+    /**
+     * Removes the rule, releasing the target if this rule was ducking it. It is okay to call this
+     * multiple times.
+     */
+    remove(): void;
+};
+
+/**
+ * Applies duck rules to tracks. A track ducked by several active rules uses the deepest amount
+ * among them.
+ */
+class Ducker {
+    private rules: TrackDuckRule[] = [];
+
+    /**
+     * The last volume given to each ducked track
+     */
+    private readonly volumes: Map<Track, number> = new Map();
+
+    constructor(private readonly audioContext: AudioContext) {}
+
+    /**
+     * Creates a duck rule
+     *
+     * @param target track to duck
+     * @param trigger track which causes the target to duck
+     * @param options amount and timing of the rule
+     * @returns the {@link DuckRule}
+     */
+    public add(target: Track, trigger: Track, options?: DuckOptions): DuckRule {
+        let amount = options?.amount ?? -12;
+        if (!Number.isFinite(amount) || amount > 0) {
+            console.warn(
+                `Duck amount must be zero or a negative number, got ${amount}. This is likely a mistake.`,
+            );
+            amount = -12;
+        }
+        let hold = options?.hold ?? 0.3;
+        if (!Number.isFinite(hold) || hold < 0) {
+            console.warn(`Duck hold must be a non-negative number, got ${hold}. This is likely a mistake.`);
+            hold = 0.3;
+        }
+
+        const rule = new TrackDuckRule(
+            target,
+            trigger,
+            10 ** (amount / 20),
+            buildOptions(options?.attack, defaults.duckAttack),
+            buildOptions(options?.release, defaults.duckRelease),
+            (changed) => this.update(changed),
+        );
+        this.rules.push(rule);
+
+        const threshold = options?.threshold ?? null;
+        if (threshold != null) {
+            rule.follow(this.audioContext, threshold, hold);
+        } else {
+            rule.listen();
+        }
+        return rule;
+    }
+
+    /**
+     * Ducks the target of a rule to the deepest volume among its active rules
+     * @param changed the rule which became active, inactive, or was removed
+     */
+    private update(changed: TrackDuckRule): void {
+        this.rules = this.rules.filter((rule) => !rule.isRemoved);
+
+        const target = changed.target;
+        let volume = 1;
+        for (const rule of this.rules) {
+            if (rule.target === target && rule.isActive) {
+                volume = Math.min(volume, rule.volume);
+            }
+        }
+
+        const current = this.volumes.get(target) ?? 1;
+        if (volume == current) {
+            return;
+        }
+        this.volumes.set(target, volume);
+        if (volume > current) {
+            target.duck(volume, changed.release);
+        } else {
+            target.duck(volume, { ...changed.attack, delay: changed.attack.delay + changed.attackDelay });
+        }
+    }
+}
+
+export default Ducker;
+
+// #region TrackDuckRule
+/**
+ * A duck rule, created by {@link Ducker#add}. The trigger is either followed by its playback events,
+ * or by the level of its output.
+ */
+class TrackDuckRule implements DuckRule {
+    public isActive: boolean = false;
+    public isRemoved: boolean = false;
+
+    /**
+     * Seconds until the trigger is heard, from the time the rule last became active. Playback can
+     * be scheduled to start in the future, so the attack waits for it.
+     */
+    public attackDelay: number = 0;
+
+    /**
+     * Event listeners on the trigger
+     */
+    private listeners: TrackListener[] = [];
+
+    /**
+     * Tracks of the trigger which are playing, more than one for a {@link TrackGroup}
+     */
+    private readonly playing: Set<Track> = new Set();
+
+    /**
+     * Analyser connected to the trigger output, when following its level
+     */
+    private analyser: AnalyserNode | null = null;
+    private followTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * @param target track to duck
+     * @param trigger track which causes the target to duck
+     * @param volume gain multiplier of the target while active
+     * @param attack adjustment when becoming active
+     * @param release adjustment when no longer active
+     * @param onChange called when the rule becomes active, inactive, or is removed
+     */
+    constructor(
+        readonly target: Track,
+        readonly trigger: Track,
+        readonly volume: number,
+        readonly attack: Required<AudioAdjustmentOptions>,
+        readonly release: Required<AudioAdjustmentOptions>,
+        private readonly onChange: (rule: TrackDuckRule) => void,
+    ) {}
+
+    /**
+     * Follows the playback of the trigger, active from the start of playback until the trigger goes
+     * silent
+     */
+    public listen(): void {
+        if (this.trigger.getActiveSource()?.isActive) {
+            this.playing.add(this.trigger);
+        }
+
+        this.listeners.push(
+            this.trigger.listenFor(TrackEventType.START_PLAYBACK, (track, startOptions) => {
+                this.playing.add(track);
+                this.setActive(true, startOptions.delay);
+            }),
+            this.trigger.listenFor(TrackEventType.SILENCED, (track) => {
+                this.playing.delete(track);
+                if (!this.trigger.getActiveSource()?.isActive) {
+                    this.playing.delete(this.trigger);
+                }
+                this.setActive(this.playing.size > 0);
+            }),
+        );
+        this.setActive(this.playing.size > 0);
+    }
+
+    /**
+     * Follows the level of the trigger output, active while the level is above the threshold, and
+     * for `hold` seconds after. The level is only measured while the trigger is playing, or the rule
+     * is still active.
+     * @param audioContext context of the trigger
+     * @param threshold level in decibels
+     * @param hold seconds
+     */
+    public follow(audioContext: AudioContext, threshold: number, hold: number): void {
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 1024;
+        this.trigger.connect(analyser);
+        this.analyser = analyser;
+
+        const samples = new Float32Array(analyser.fftSize);
+        let heldUntil = -1;
+        const measure = (): void => {
+            this.followTimer = null;
+            analyser.getFloatTimeDomainData(samples);
+            let sum = 0;
+            for (let i = 0; i < samples.length; i++) {
+                sum += samples[i]! * samples[i]!;
+            }
+            const level = 10 * Math.log10(sum / samples.length);
+            if (level >= threshold) {
+                heldUntil = audioContext.currentTime + hold;
+            }
+            this.setActive(audioContext.currentTime < heldUntil);
+            if (this.isActive || this.playing.size > 0) {
+                this.followTimer = setTimeout(measure, FOLLOW_INTERVAL);
+            }
+        };
+
+        if (this.trigger.getActiveSource()?.isActive) {
+            this.playing.add(this.trigger);
+        }
+        this.listeners.push(
+            this.trigger.listenFor(TrackEventType.START_PLAYBACK, (track) => {
+                this.playing.add(track);
+                if (this.followTimer == null) {
+                    measure();
+                }
+            }),
+            this.trigger.listenFor(TrackEventType.SILENCED, (track) => {
+                this.playing.delete(track);
+                if (!this.trigger.getActiveSource()?.isActive) {
+                    this.playing.delete(this.trigger);
+                }
+            }),
+        );
+        measure();
+    }
+
+    public remove(): void {
+        if (this.isRemoved) {
+            return;
+        }
+        this.isRemoved = true;
+        this.isActive = false;
+
+        this.listeners.forEach((listener) => listener.remove());
+        this.listeners = [];
+        if (this.followTimer != null) {
+            clearTimeout(this.followTimer);
+            this.followTimer = null;
+        }
+        if (this.analyser) {
+            this.trigger.disconnect(this.analyser);
+            this.analyser = null;
+        }
+        this.onChange(this);
+    }
+
+    /**
+     * @param active `true` if the trigger is active
+     * @param delay seconds until the trigger is heard, when becoming active
+     */
+    private setActive(active: boolean, delay: number = 0): void {
+        if (this.isRemoved || this.isActive == active) {
+            return;
+        }
+        this.isActive = active;
+        this.attackDelay = active ? delay : 0;
+        this.onChange(this);
+    }
+}
+// #endregion TrackDuckRule
@@ -0,0 +1,123 @@
+import automation, { AudioAdjustmentOptions } from './automation.js';
+
+/**
+ * Threshold of the limiter, in decibels
+ */
+const LIMITER_THRESHOLD = -1;
+
+/**
+ * Level at which the clipper after the limiter starts to round off peaks, as a gain multiplier
+ */
+const CLIPPER_KNEE = 0.9;
+
+/**
+ * Settings of a compressor, see {@link Mixer#compressor}. These match the parameters of a
+ * DynamicsCompressorNode.
+ */
+export type CompressorOptions = {
+    /**
+     * Level above which the audio is compressed, in decibels from `-100` to `0`
+     */
+    threshold?: number;
+
+    /**
+     * Range above the threshold over which the compression gradually increases, in decibels from
+     * `0` to `40`
+     */
+    knee?: number;
+
+    /**
+     * Decibels of input change for one decibel of output change above the threshold, from `1` to
+     * `20`
+     */
+    ratio?: number;
+
+    /**
+     * Seconds to reduce the gain by 10 decibels, from `0` to `1`
+     */
+    attack?: number;
+
+    /**
+     * Seconds to increase the gain by 10 decibels, from `0` to `1`
+     */
+    release?: number;
+};
+
+/**
+ * Creates a compressor with the given settings
+ *
+ * @param audioContext
+ * @param options settings of the compressor
+ * @returns the compressor
+ */
+export function createCompressor(
+    audioContext: AudioContext,
+    options: Required<CompressorOptions>,
+): DynamicsCompressorNode {
+    const compressor = audioContext.createDynamicsCompressor();
+    compressor.threshold.value = options.threshold;
+    compressor.knee.value = options.knee;
+    compressor.ratio.value = options.ratio;
+    compressor.attack.value = options.attack;
+    compressor.release.value = options.release;
+    return compressor;
+}
+
+/**
+ * Automates the settings of an existing compressor
+ *
+ * @param audioContext
+ * @param compressor compressor to change
+ * @param options new settings of the compressor
+ * @param adjustment adjustment parameters of the change
+ */
+export function automateCompressor(
+    audioContext: AudioContext,
+    compressor: DynamicsCompressorNode,
+    options: Required<CompressorOptions>,
+    adjustment: Required<AudioAdjustmentOptions>,
+): void {
+    automation(audioContext, compressor.threshold, options.threshold, adjustment);
+    automation(audioContext, compressor.knee, options.knee, adjustment);
+    automation(audioContext, compressor.ratio, options.ratio, adjustment);
+    automation(audioContext, compressor.attack, options.attack, adjustment);
+    automation(audioContext, compressor.release, options.release, adjustment);
+}
+
+/**
+ * Creates a limiter, a compressor with the fastest attack and highest ratio, followed by a clipper
+ * which rounds off the peaks the compressor is too slow to catch. Audio below the knee of the
+ * clipper passes through it unchanged, and its output never exceeds about -0.2 decibels.
+ *
+ * @param audioContext
+ * @returns the limiter, as the first and last node of the effect
+ */
+export function createLimiter(audioContext: AudioContext): {
+    input: DynamicsCompressorNode;
+    output: WaveShaperNode;
+} {
+    const compressor = createCompressor(audioContext, {
+        threshold: LIMITER_THRESHOLD,
+        knee: 0,
+        ratio: 20,
+        attack: 0,
+        release: 0.1,
+    });
+
+    const curve = new Float32Array(4097);
+    for (let i = 0; i < curve.length; i++) {
+        const x = (i / (curve.length - 1)) * 2 - 1;
+        const magnitude = Math.abs(x);
+        curve[i] =
+            magnitude <= CLIPPER_KNEE
+                ? x
+                : Math.sign(x) *
+                  (CLIPPER_KNEE +
+                      (1 - CLIPPER_KNEE) * Math.tanh((magnitude - CLIPPER_KNEE) / (1 - CLIPPER_KNEE)));
+    }
+    const clipper = audioContext.createWaveShaper();
+    clipper.curve = curve;
+    compressor.connect(clipper);
+
+    return { input: compressor, output: clipper };
+}
@@ -0,0 +1,147 @@
+/**
+ * Options for fetching audio files
+ */
+export type AudioLoadOptions = {
+    /**
+     * Number of times to retry a failed request. Requests are only retried for network errors,
+     * timeouts and server errors, a missing file fails immediately.
+     */
+    retries?: number;
+
+    /**
+     * Seconds to wait before the first retry. The wait doubles after every retry.
+     */
+    retryDelay?: number;
+
+    /**
+     * Seconds to wait for a single request before it is aborted and counted as a failure, `0` to
+     * wait forever.
+     */
+    timeout?: number;
+};
+
+/**
+ * Receives the bytes of a file downloaded so far, and the size of the file from its
+ * `Content-Length` header, `0` if the size is unknown. Starts again from `0` if a request is retried.
+ */
+export type LoadProgressCallback = (loaded: number, total: number) => void;
+
+/**
+ * Error for a request which should not be retried
+ */
+class FatalLoadError extends Error {}
+
+/**
+ * Fetches the contents of a file, retrying failed requests with exponential backoff.
+ *
+ * @param path file path
+ * @param options retry and timeout behavior
+ * @param signal aborts the request, no further attempts are made once aborted
+ * @param onProgress called as the file downloads
+ * @returns the contents of the file
+ */
+export default async function fetchAudioData(
+    path: string,
+    options: Required<AudioLoadOptions>,
+    signal?: AbortSignal,
+    onProgress?: LoadProgressCallback,
+): Promise<ArrayBuffer> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fetchOnce(path, options.timeout, signal, onProgress);
+        } catch (error) {
+            if (signal?.aborted || error instanceof FatalLoadError || attempt >= options.retries) {
+                throw error instanceof FatalLoadError ? new Error(error.message) : error;
+            }
+        }
+        await wait(options.retryDelay * 2 ** attempt, signal);
+    }
+}
+
+/**
+ * Performs a single request, aborting it after `timeout` seconds
+ */
+async function fetchOnce(
+    path: string,
+    timeout: number,
+    signal?: AbortSignal,
+    onProgress?: LoadProgressCallback,
+): Promise<ArrayBuffer> {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+    const timer =
+        timeout > 0
+            ? setTimeout(
+                  () => controller.abort(new Error(`Loading "${path}" timed out after ${timeout} seconds`)),
+                  timeout * 1000,
+              )
+            : null;
+
+    try {
+        const response = await fetch(path, { signal: controller.signal });
+        // Local files in NW.js report a status of 0
+        if (!response.ok && response.status != 0) {
+            const message = `Failed to load "${path}": ${response.status} ${response.statusText}`;
+            throw response.status >= 500 ? new Error(message) : new FatalLoadError(message);
+        }
+        if (!onProgress || !response.body) {
+            return await response.arrayBuffer();
+        }
+        return await readWithProgress(response, response.body, onProgress);
+    } finally {
+        if (timer != null) {
+            clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Reads the body of a response, reporting the bytes read after every chunk
+ */
+async function readWithProgress(
+    response: Response,
+    body: ReadableStream<Uint8Array>,
+    onProgress: LoadProgressCallback,
+): Promise<ArrayBuffer> {
+    const total = Number(response.headers.get('Content-Length')) || 0;
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    onProgress(0, total);
+
+    const reader = body.getReader();
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value);
+        loaded += result.value.length;
+        // Compressed responses report the compressed size, which the body exceeds
+        onProgress(loaded, Math.max(total, loaded));
+    }
+
+    const data = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return data.buffer;
+}
+
+/**
+ * Resolves after `seconds`, or rejects as soon as `signal` is aborted
+ */
+function wait(seconds: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, seconds * 1000);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -1,7 +1,10 @@
 import Mixer from './Mixer';
+import { AudioCacheEventType, AudioLoadState, AudioPreloadEventType } from './AudioSourceCache';
 import AudioSourceNode from './AudioSourceNode';
 import { AudioRampType } from './automation';
 import HRTFPannerNode from './HRTFPannerNode';
+import { QueueEventType, QueueRepeatType } from './Queue';
+import Reverb, { ReverbPreset } from './Reverb';
 import {
     //
     TrackBeatType,
@@ -13,9 +16,16 @@ import {
 export {
     //
     Mixer,
+    AudioCacheEventType,
+    AudioLoadState,
+    AudioPreloadEventType,
     AudioRampType,
     AudioSourceNode,
     HRTFPannerNode,
+    QueueEventType,
+    QueueRepeatType,
+    Reverb,
+    ReverbPreset,
     TrackBeatType,
     TrackEventType,
     TrackGroup,
@@ -24,14 +34,22 @@ export {
 
 export type {
     //
+    AudioBufferHandle,
+    AudioCacheEventCallbacks,
+    AudioCacheListener,
+    AudioPreload,
+    AudioPreloadEventCallbacks,
+    AudioPreloadListener,
     AudioSourceCache,
     LoadAudioCallback,
+    LoadAudioErrorCallback,
 } from './AudioSourceCache';
 
 export type {
     //
     AudioSourceNodeEvent,
     EventEnded,
+    EventError,
     EventLoaded,
 } from './AudioSourceNode';
 
@@ -40,10 +58,58 @@ export type {
     AudioAdjustmentOptions,
 } from './automation';
 
+export type {
+    //
+    default as Bus,
+} from './Bus';
+
+export type {
+    //
+    DuckOptions,
+    DuckRule,
+} from './ducking';
+
+export type {
+    //
+    CompressorOptions,
+} from './dynamics';
+
+export type {
+    //
+    default as EffectChain,
+    Effect,
+} from './EffectChain';
+
+export type {
+    //
+    AudioLoadOptions,
+    LoadProgressCallback,
+} from './load';
+
+export type {
+    //
+    OggMetadata,
+} from './ogg';
+
+export type {
+    //
+    default as Queue,
+    QueueEventCallbacks,
+    QueueListener,
+} from './Queue';
+
+export type {
+    //
+    ReverbOptions,
+} from './Reverb';
+
 export type {
     //
     Track,
     TrackBeat,
+    TrackEventCallbacks,
+    TrackListener,
+    TrackSendOptions,
     TrackSwapAdvancedOptions,
     TrackSwapOptions,
 } from './Track';
@@ -0,0 +1,160 @@
+/**
+ * Metadata read from the headers of an Ogg Vorbis file
+ */
+export type OggMetadata = {
+    /**
+     * Sample rate of the encoded audio. This can differ from the sample rate of the decoded
+     * buffer, which is resampled to the rate of the AudioContext.
+     */
+    sampleRate: number;
+
+    /**
+     * Vendor string of the encoder
+     */
+    vendor: string;
+
+    /**
+     * User comments, with upper case field names. If a field appears more than once, the
+     * last value is kept.
+     */
+    comments: { [field: string]: string };
+
+    /**
+     * First sample of the loop region, from the `LOOPSTART` comment. `null` if not present.
+     */
+    loopStart: number | null;
+
+    /**
+     * Length in samples of the loop region, from the `LOOPLENGTH` comment. `null` if not present.
+     */
+    loopLength: number | null;
+};
+
+const VORBIS = 'vorbis';
+const PACKET_IDENTIFICATION = 1;
+const PACKET_COMMENT = 3;
+
+/**
+ * Reads the identification and comment headers of an Ogg Vorbis file. Only the first pages are
+ * read, stopping once the comment header is complete. This must be called before passing the
+ * data to `decodeAudioData()`, which detaches the buffer.
+ *
+ * @param data contents of the file
+ * @returns the {@link OggMetadata}, `null` if the data is not Ogg Vorbis or the headers are malformed
+ */
+export default function parseOggMetadata(data: ArrayBuffer): OggMetadata | null {
+    const view = new DataView(data);
+    const packets: Uint8Array[] = [];
+    let packet: Uint8Array[] = [];
+    let offset = 0;
+
+    // Collect the first two packets, which may span many pages
+    while (packets.length < 2) {
+        if (offset + 27 > view.byteLength || readString(view, offset, 4) != 'OggS') {
+            return null;
+        }
+        const segmentCount = view.getUint8(offset + 26);
+        let dataOffset = offset + 27 + segmentCount;
+        if (dataOffset > view.byteLength) {
+            return null;
+        }
+        for (let i = 0; i < segmentCount && packets.length < 2; i++) {
+            const segmentLength = view.getUint8(offset + 27 + i);
+            if (dataOffset + segmentLength > view.byteLength) {
+                return null;
+            }
+            packet.push(new Uint8Array(data, dataOffset, segmentLength));
+            dataOffset += segmentLength;
+
+            // A segment shorter than 255 bytes ends the packet
+            if (segmentLength < 255) {
+                packets.push(concat(packet));
+                packet = [];
+            }
+        }
+        offset = dataOffset;
+    }
+
+    const identification = new DataView(packets[0]!.buffer);
+    const comment = new DataView(packets[1]!.buffer);
+    if (
+        identification.byteLength < 16 ||
+        identification.getUint8(0) != PACKET_IDENTIFICATION ||
+        readString(identification, 1, 6) != VORBIS ||
+        comment.byteLength < 11 ||
+        comment.getUint8(0) != PACKET_COMMENT ||
+        readString(comment, 1, 6) != VORBIS
+    ) {
+        return null;
+    }
+
+    const sampleRate = identification.getUint32(12, true);
+
+    let position = 7;
+    const vendorLength = comment.getUint32(position, true);
+    position += 4;
+    if (position + vendorLength + 4 > comment.byteLength) {
+        return null;
+    }
+    const vendor = readString(comment, position, vendorLength);
+    position += vendorLength;
+
+    const comments: { [field: string]: string } = {};
+    const commentCount = comment.getUint32(position, true);
+    position += 4;
+    for (let i = 0; i < commentCount; i++) {
+        if (position + 4 > comment.byteLength) {
+            return null;
+        }
+        const length = comment.getUint32(position, true);
+        position += 4;
+        if (position + length > comment.byteLength) {
+            return null;
+        }
+        const entry = readString(comment, position, length);
+        position += length;
+
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+            comments[entry.slice(0, separator).toUpperCase()] = entry.slice(separator + 1);
+        }
+    }
+
+    return {
+        sampleRate,
+        vendor,
+        comments,
+        loopStart: parseSamples(comments['LOOPSTART']),
+        loopLength: parseSamples(comments['LOOPLENGTH']),
+    };
+}
+
+/**
+ * Reads a UTF-8 string
+ */
+function readString(view: DataView, offset: number, length: number): string {
+    return new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, length));
+}
+
+/**
+ * Joins packet segments into a single array
+ */
+function concat(segments: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(segments.reduce((length, segment) => length + segment.length, 0));
+    let offset = 0;
+    for (const segment of segments) {
+        result.set(segment, offset);
+        offset += segment.length;
+    }
+    return result;
+}
+
+/**
+ * Parses a sample count from a comment value
+ */
+function parseSamples(value: string | undefined): number | null {
+    if (value == undefined || !/^\s*\d+\s*$/.test(value)) {
+        return null;
+    }
+    return Number.parseInt(value, 10);
+}
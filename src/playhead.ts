@@ -0,0 +1,422 @@
+/**
+ * Name of the processor registered with {@link loadPlayheadWorklet}
+ */
+const PROCESSOR_NAME = 'musicmixer-playhead';
+
+/**
+ * Render quanta between position reports, about every 20 milliseconds at 48k
+ */
+const REPORT_INTERVAL = 8;
+
+/**
+ * Source of the processor. It follows the playhead of an AudioBufferSourceNode from its start time,
+ * offset, loop region and playback rate, and reports it to the main thread.
+ *
+ * Kept as a string so that it can be registered from a Blob, without serving a separate file.
+ */
+const PROCESSOR_SOURCE = `
+const REPORT_INTERVAL = ${REPORT_INTERVAL};
+
+class PlayheadProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'playbackRate', defaultValue: 0, automationRate: 'k-rate' },
+            { name: 'detune', defaultValue: 0, automationRate: 'k-rate' },
+        ];
+    }
+
+    constructor() {
+        super();
+        this.length = 0;
+        this.bufferRate = sampleRate;
+        this.loop = false;
+        this.loopStart = 0;
+        this.loopEnd = 0;
+        this.startTime = -1;
+        this.stopTime = Infinity;
+        this.offset = 0;
+        this.remaining = Infinity;
+        this.position = 0;
+        this.playing = false;
+        this.ended = false;
+        this.generation = 0;
+        this.counter = 0;
+        this.changed = false;
+        this.port.onmessage = (event) => this.receive(event.data);
+    }
+
+    receive(message) {
+        switch (message.type) {
+            case 'buffer':
+                this.length = message.length;
+                this.bufferRate = message.sampleRate;
+                break;
+            case 'loop':
+                this.loop = message.loop;
+                this.loopStart = message.loopStart;
+                this.loopEnd = message.loopEnd;
+                break;
+            case 'start':
+                this.generation = message.generation;
+                this.ended = false;
+                this.startTime = message.when;
+                this.offset = message.offset;
+                this.remaining = message.duration;
+                this.stopTime = Infinity;
+                this.playing = false;
+                this.changed = true;
+                break;
+            case 'stop':
+                this.stopTime = message.when;
+                break;
+        }
+    }
+
+    process(inputs, outputs, parameters) {
+        const duration = 128 / sampleRate;
+        if (this.startTime >= 0 && currentTime + duration > this.startTime) {
+            this.startTime = -1;
+            this.position = this.offset * this.bufferRate;
+            this.playing = this.length > 0;
+            this.ended = !this.playing;
+            this.changed = true;
+        }
+
+        if (this.playing) {
+            if (currentTime >= this.stopTime) {
+                this.stop();
+            } else {
+                const rate = parameters.playbackRate[0] * 2 ** (parameters.detune[0] / 1200);
+                this.position += rate * duration * this.bufferRate;
+                this.remaining -= rate * duration;
+                this.wrap(rate);
+                if (this.remaining <= 0) {
+                    this.stop();
+                }
+            }
+        }
+
+        if (this.changed || ++this.counter >= REPORT_INTERVAL) {
+            const rate = parameters.playbackRate[0] * 2 ** (parameters.detune[0] / 1200);
+            this.port.postMessage({
+                time: currentTime + duration,
+                position: this.position,
+                rate: this.playing ? rate : 0,
+                playing: this.playing,
+                ended: this.ended,
+                generation: this.generation,
+            });
+            this.counter = 0;
+            this.changed = false;
+        }
+        // The main thread discards the worklet once playback has ended
+        return !this.ended;
+    }
+
+    stop() {
+        this.playing = false;
+        this.ended = true;
+        this.changed = true;
+    }
+
+    wrap(rate) {
+        const duration = this.length / this.bufferRate;
+        if (this.loop && duration > 0) {
+            let start = 0;
+            let end = duration;
+            if (this.loopStart >= 0 && this.loopEnd > 0 && this.loopStart < this.loopEnd) {
+                start = Math.min(this.loopStart, duration);
+                end = Math.min(this.loopEnd, duration);
+            }
+            start *= this.bufferRate;
+            end *= this.bufferRate;
+            if (this.position >= end) {
+                this.position = start + ((this.position - end) % (end - start));
+            } else if (rate < 0 && this.position < start) {
+                this.position = end - ((start - this.position) % (end - start));
+            }
+        } else if (this.position >= this.length || this.position < 0) {
+            this.stop();
+        }
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PlayheadProcessor);
+`;
+
+/**
+ * Loop region of an AudioBufferSourceNode, following the rules of the Web Audio API. The processor
+ * has its own copy of this logic.
+ *
+ * @returns `[start, end]` in seconds, `null` when not looping
+ */
+function loopRegion(
+    loop: boolean,
+    loopStart: number,
+    loopEnd: number,
+    duration: number,
+): [number, number] | null {
+    if (!loop || duration <= 0) {
+        return null;
+    }
+    if (loopStart >= 0 && loopEnd > 0 && loopStart < loopEnd) {
+        return [Math.min(loopStart, duration), Math.min(loopEnd, duration)];
+    }
+    return [0, duration];
+}
+
+const loaded: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+const ready: WeakSet<BaseAudioContext> = new WeakSet();
+
+/**
+ * Registers the playhead processor on an AudioContext. It is okay to call this multiple times.
+ *
+ * @param audioContext context to register the processor on
+ */
+export function loadPlayheadWorklet(audioContext: BaseAudioContext): Promise<void> {
+    let promise = loaded.get(audioContext);
+    if (!promise) {
+        const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+        promise = audioContext.audioWorklet.addModule(url).then(
+            () => {
+                URL.revokeObjectURL(url);
+                ready.add(audioContext);
+            },
+            (err) => {
+                URL.revokeObjectURL(url);
+                loaded.delete(audioContext);
+                throw err;
+            },
+        );
+        loaded.set(audioContext, promise);
+    }
+    return promise;
+}
+
+/**
+ * @param audioContext context to check
+ * @returns `true` once {@link loadPlayheadWorklet} has completed for the context
+ */
+export function isPlayheadWorkletLoaded(audioContext: BaseAudioContext): boolean {
+    return ready.has(audioContext);
+}
+
+/**
+ * Nodes following a single playback, created when it starts and released once it ends
+ */
+type PlaybackNodes = {
+    worklet: AudioWorkletNode;
+    rateSource: ConstantSourceNode;
+    detuneSource: ConstantSourceNode;
+};
+
+/**
+ * Follows the playhead of an AudioBufferSourceNode from an AudioWorklet, without adding a position
+ * channel to its buffer.
+ *
+ * During playback, the playback rate and detune of the source are driven by constant sources owned
+ * by the playhead, so that the worklet receives the same values. Use {@link playbackRate} and
+ * {@link detune} instead of the parameters of the source node. The worklet and constant sources
+ * are stopped once playback ends, handing the current values back to the source node.
+ */
+class Playhead {
+    private sourceNode: AudioBufferSourceNode | null = null;
+    private nodes: PlaybackNodes | null = null;
+
+    /**
+     * Incremented on each start, so that the end of an earlier playback is ignored
+     */
+    private generation: number = 0;
+
+    private length: number = 0;
+    private bufferRate: number = 0;
+    private loopState: [boolean, number, number] = [false, 0, 0];
+
+    /**
+     * The latest report from the worklet, positions are extrapolated from it
+     */
+    private report = { time: 0, position: 0, rate: 0, playing: false };
+
+    constructor(private readonly audioContext: BaseAudioContext) {
+        if (!isPlayheadWorkletLoaded(audioContext)) {
+            throw new Error('Cannot create a Playhead before loadPlayheadWorklet() has completed');
+        }
+    }
+
+    /**
+     * Drives the playback rate and detune of a source node during playback, replacing its own values.
+     * A source node replacing another keeps its playback rate and detune.
+     * @param sourceNode source node to follow
+     */
+    public connectSource(sourceNode: AudioBufferSourceNode): void {
+        const previous = this.sourceNode;
+        this.sourceNode = sourceNode;
+        if (this.nodes) {
+            this.drive(sourceNode, this.nodes);
+        } else if (previous) {
+            sourceNode.playbackRate.value = previous.playbackRate.value;
+            sourceNode.detune.value = previous.detune.value;
+        }
+    }
+
+    /**
+     * Sets the buffer being played, `null` to stop following the playhead
+     */
+    public setBuffer(buffer: AudioBuffer | null): void {
+        this.length = buffer?.length ?? 0;
+        this.bufferRate = buffer?.sampleRate ?? 0;
+        this.report = { time: 0, position: 0, rate: 0, playing: false };
+        this.nodes?.worklet.port.postMessage({
+            type: 'buffer',
+            length: this.length,
+            sampleRate: this.bufferRate,
+        });
+    }
+
+    /**
+     * Sets the loop region, in seconds, matching the source node
+     */
+    public loop(loop: boolean, loopStart: number, loopEnd: number): void {
+        this.loopState = [loop, loopStart, loopEnd];
+        this.nodes?.worklet.port.postMessage({ type: 'loop', loop, loopStart, loopEnd });
+    }
+
+    /**
+     * Matches a call to `start()` on the source node
+     */
+    public start(when?: number, offset?: number, duration?: number): void {
+        const nodes = this.nodes ?? this.createNodes();
+        nodes.worklet.port.postMessage({
+            type: 'start',
+            when: Math.max(when ?? 0, this.audioContext.currentTime),
+            offset: offset ?? 0,
+            duration: duration ?? Infinity,
+            generation: ++this.generation,
+        });
+    }
+
+    /**
+     * Matches a call to `stop()` on the source node
+     */
+    public stop(when?: number): void {
+        this.nodes?.worklet.port.postMessage({
+            type: 'stop',
+            when: Math.max(when ?? 0, this.audioContext.currentTime),
+        });
+    }
+
+    /**
+     * @returns the sample index of the playhead, `-1` if the source is not playing
+     */
+    public positionSample(): number {
+        const report = this.report;
+        if (!report.playing || this.length == 0) {
+            return -1;
+        }
+        const elapsed = Math.max(0, this.audioContext.currentTime - report.time);
+        let position = report.position + elapsed * report.rate * this.bufferRate;
+
+        const region = loopRegion(...this.loopState, this.length / this.bufferRate);
+        if (region) {
+            const start = region[0] * this.bufferRate;
+            const end = region[1] * this.bufferRate;
+            if (position >= end) {
+                position = start + ((position - end) % (end - start));
+            }
+        }
+        return Math.max(0, Math.min(Math.floor(position), this.length - 1));
+    }
+
+    /**
+     * The playback rate of the source, the parameter of the source node itself while not playing
+     */
+    get playbackRate(): AudioParam {
+        return this.nodes?.rateSource.offset ?? this.sourceNode!.playbackRate;
+    }
+
+    /**
+     * The detune of the source, the parameter of the source node itself while not playing
+     */
+    get detune(): AudioParam {
+        return this.nodes?.detuneSource.offset ?? this.sourceNode!.detune;
+    }
+
+    /**
+     * Stops the worklet and constant sources
+     */
+    public destroy(): void {
+        this.release();
+        this.sourceNode = null;
+    }
+
+    /**
+     * Creates the worklet and constant sources for a playback, taking over the playback rate and
+     * detune of the source node
+     */
+    private createNodes(): PlaybackNodes {
+        const worklet = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME, {
+            numberOfInputs: 0,
+            numberOfOutputs: 0,
+        });
+        worklet.port.onmessage = (event) => {
+            this.report = event.data;
+            if (event.data.ended && event.data.generation == this.generation) {
+                this.release();
+            }
+        };
+        worklet.port.postMessage({ type: 'buffer', length: this.length, sampleRate: this.bufferRate });
+        const [loop, loopStart, loopEnd] = this.loopState;
+        worklet.port.postMessage({ type: 'loop', loop, loopStart, loopEnd });
+
+        const rateSource = this.audioContext.createConstantSource();
+        rateSource.offset.value = this.sourceNode?.playbackRate.value ?? 1;
+        rateSource.connect(worklet.parameters.get('playbackRate')!);
+        rateSource.start();
+
+        const detuneSource = this.audioContext.createConstantSource();
+        detuneSource.offset.value = this.sourceNode?.detune.value ?? 0;
+        detuneSource.connect(worklet.parameters.get('detune')!);
+        detuneSource.start();
+
+        this.nodes = { worklet, rateSource, detuneSource };
+        if (this.sourceNode) {
+            this.drive(this.sourceNode, this.nodes);
+        }
+        return this.nodes;
+    }
+
+    /**
+     * Connects the constant sources to the parameters of a source node
+     */
+    private drive(sourceNode: AudioBufferSourceNode, nodes: PlaybackNodes): void {
+        sourceNode.playbackRate.value = 0;
+        sourceNode.detune.value = 0;
+        nodes.rateSource.connect(sourceNode.playbackRate);
+        nodes.detuneSource.connect(sourceNode.detune);
+    }
+
+    /**
+     * Stops and disconnects the nodes of the current playback, handing the current playback rate and
+     * detune back to the source node
+     */
+    private release(): void {
+        const nodes = this.nodes;
+        if (!nodes) {
+            return;
+        }
+        this.nodes = null;
+        if (this.sourceNode) {
+            this.sourceNode.playbackRate.value = nodes.rateSource.offset.value;
+            this.sourceNode.detune.value = nodes.detuneSource.offset.value;
+        }
+        nodes.rateSource.stop();
+        nodes.rateSource.disconnect();
+        nodes.detuneSource.stop();
+        nodes.detuneSource.disconnect();
+        nodes.worklet.port.onmessage = null;
+        nodes.worklet.port.close();
+        nodes.worklet.disconnect();
+    }
+}
+
+export default Playhead;
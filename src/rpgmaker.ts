@@ -0,0 +1,64 @@
+/**
+ * Header of RPG Maker encrypted files: the signature "RPGMV", the version, and padding
+ */
+const HEADER = Object.freeze([
+    0x52, 0x50, 0x47, 0x4d, 0x56, 0x00, 0x00, 0x00, 0x00, 0x03, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00,
+]);
+
+/**
+ * Number of bytes after the header which are encrypted
+ */
+const ENCRYPTED_LENGTH = 16;
+
+/**
+ * Converts an RPG Maker encryption key, the `encryptionKey` value from System.json, into bytes
+ *
+ * @param key hexadecimal key string
+ * @returns the key bytes
+ */
+export function parseEncryptionKey(key: string): Uint8Array {
+    if (typeof key != 'string' || !/^[0-9a-fA-F]{32}$/.test(key)) {
+        throw new TypeError('Encryption key must be a string of 32 hexadecimal characters');
+    }
+    const bytes = new Uint8Array(ENCRYPTED_LENGTH);
+    for (let i = 0; i < ENCRYPTED_LENGTH; i++) {
+        bytes[i] = Number.parseInt(key.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * @param data contents of a file
+ * @returns `true` if the data begins with the RPG Maker encryption header
+ */
+export function isEncrypted(data: ArrayBuffer): boolean {
+    if (data.byteLength < HEADER.length) {
+        return false;
+    }
+    const bytes = new Uint8Array(data, 0, HEADER.length);
+    return HEADER.every((byte, i) => bytes[i] == byte);
+}
+
+/**
+ * Restores the original file of an RPG Maker encrypted audio file, such as `.rpgmvo` and `.ogg_`.
+ * Data without the encryption header is returned unchanged, so this can be called on any file.
+ *
+ * @param data contents of the file
+ * @param key encryption key, required if the data is encrypted
+ * @returns the decrypted data
+ */
+export default function decryptAudio(data: ArrayBuffer, key: Uint8Array | null): ArrayBuffer {
+    if (!isEncrypted(data)) {
+        return data;
+    }
+    if (!key) {
+        throw new Error('Cannot load RPG Maker encrypted audio without an encryption key');
+    }
+
+    const decrypted = data.slice(HEADER.length);
+    const bytes = new Uint8Array(decrypted, 0, Math.min(ENCRYPTED_LENGTH, decrypted.byteLength));
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i]! ^= key[i]!;
+    }
+    return decrypted;
+}
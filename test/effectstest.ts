@@ -0,0 +1,70 @@
+/*
+
+The effects of a playing source carry over when its track seeks, restarts or resumes it.
+
+ */
+
+import AudioSourceNode from '../src/AudioSourceNode.js';
+import TrackSingle from '../src/Track.js';
+import { test } from './harness.js';
+import { FakeAudioContext, FakeAudioNode } from './webaudio.js';
+
+import assert from 'node:assert/strict';
+
+console.log('source effects');
+
+/**
+ * Creates a track playing a source with a 10 second buffer
+ */
+function playTrack(context: FakeAudioContext): [TrackSingle, AudioSourceNode] {
+    const track = new TrackSingle('music', context.real, context.destination as any, null);
+    const source = new AudioSourceNode(context.real, track);
+    source.buffer = context.createBuffer(2, 10 * context.sampleRate, context.sampleRate) as any;
+
+    track.loadSource(source);
+    track.start();
+    context.currentTime = 1;
+    return [track, source];
+}
+
+/**
+ * Asserts that the playing source of the track processes its audio with the effects
+ */
+function assertEffectsCarried(track: TrackSingle, source: AudioSourceNode, effects: unknown): void {
+    const playing = track.getActiveSource()!;
+    assert.notEqual(playing, source);
+    assert.equal(playing.effects, effects);
+    assert.ok((playing.effects.output as unknown as FakeAudioNode).connections.size > 0);
+}
+
+test('seeking keeps the effects of the source', () => {
+    const context = new FakeAudioContext();
+    const [track, source] = playTrack(context);
+    const effects = source.effects;
+
+    track.seek(4);
+    assertEffectsCarried(track, source, effects);
+    track.stop();
+});
+
+test('starting again keeps the effects of the source', () => {
+    const context = new FakeAudioContext();
+    const [track, source] = playTrack(context);
+    const effects = source.effects;
+
+    track.start();
+    assertEffectsCarried(track, source, effects);
+    track.stop();
+});
+
+test('resuming during the fade out keeps the effects of the source', () => {
+    const context = new FakeAudioContext();
+    const [track, source] = playTrack(context);
+    const effects = source.effects;
+
+    track.pause();
+    context.currentTime = 1.01;
+    track.resume();
+    assertEffectsCarried(track, source, effects);
+    track.stop();
+});
@@ -1,9 +1,16 @@
 /*
 
-Demonstration of the accuracy for values in the Float32Array, used by the AudioBuffer.
+Demonstration of the accuracy for values in the Float32Array, used by the AudioBuffer, followed by
+cases for the position channels which rely on it.
 
  */
 
+import AudioSourceNode from '../src/AudioSourceNode.js';
+import { test } from './harness.js';
+import './webaudio.js';
+
+import assert from 'node:assert/strict';
+
 const MAX_32_INT = 2 ** 32;
 const MAX_32_FLOAT_INT = 2 ** 24;
 const MAX_SAFE_INTEGER = Number.MAX_SAFE_INTEGER;
@@ -68,3 +75,72 @@ console.log(
 );
 console.log(`Best 44.1k supported duration: ${(MAX_32_FLOAT_INT * 2) / 44100} seconds.`);
 console.log(`Best 88.2k supported duration: ${(MAX_32_FLOAT_INT * 2) / 88100} seconds.`);
+
+/*
+
+Position channels. Buffers up to 2^25 samples have a single channel holding the index minus half
+the length, beyond that a coarse channel holds the index and a fine channel the index modulo 2^16.
+
+ */
+
+console.log('\nposition channels');
+
+const MAX_SINGLE_POSITION_LENGTH = 2 ** 25;
+const FINE_MODULUS = 2 ** 16;
+
+/**
+ * Reads a sample index back from the coarse and fine channel values that the buffer would hold
+ * @param index sample index written to the channels
+ * @param readIndex sample index when the fine channel is read, the playhead may move in between
+ */
+function readCoarseFine(index: number, readIndex: number = index): number {
+    return AudioSourceNode.combinePositionChannels(
+        convert32float(index),
+        convert32float(readIndex % FINE_MODULUS),
+    );
+}
+
+test('the single channel is exact up to 2^25 samples', () => {
+    const half = Math.floor(MAX_SINGLE_POSITION_LENGTH / 2);
+    for (const index of [0, 1, half - 1, half, half + 1, MAX_SINGLE_POSITION_LENGTH - 1]) {
+        assert.equal(convert32float(index - half) + half, index);
+    }
+});
+
+test('the single channel holds the index minus half the length', () => {
+    const buffer = new AudioBuffer({ length: 1001, sampleRate: 48000, numberOfChannels: 2 });
+    const tracked = AudioSourceNode.computeBufferWithPositionChannel(buffer)!;
+    assert.equal(tracked.numberOfChannels, 3);
+    const position = tracked.getChannelData(2);
+    assert.equal(position[0], -500);
+    assert.equal(position[500], 0);
+    assert.equal(position[1000], 500);
+});
+
+test('the coarse channel alone is not exact beyond 2^24 samples', () => {
+    assert.notEqual(convert32float(MAX_SINGLE_POSITION_LENGTH + 1), MAX_SINGLE_POSITION_LENGTH + 1);
+});
+
+test('the coarse and fine channels are exact beyond 2^25 samples', () => {
+    const indices = [
+        MAX_SINGLE_POSITION_LENGTH + 1,
+        MAX_SINGLE_POSITION_LENGTH + FINE_MODULUS - 1,
+        2 ** 26 + 3,
+        2 ** 28 + FINE_MODULUS / 2,
+        2 ** 30 + 12345,
+        2 ** 31 - 1,
+    ];
+    for (const index of indices) {
+        assert.equal(readCoarseFine(index), index);
+    }
+});
+
+test('the coarse and fine channels follow the playhead between reads', () => {
+    const index = 2 ** 27 + 7;
+    assert.equal(readCoarseFine(index, index + 1000), index + 1000);
+});
+
+test('the coarse and fine channels follow the fine channel wrapping between reads', () => {
+    const index = 2 ** 27 + 3 * FINE_MODULUS - 10;
+    assert.equal(readCoarseFine(index, index + 20), index + 20);
+});
@@ -0,0 +1,21 @@
+/*
+
+Runs test cases, reporting each one and failing the process if any case throws.
+
+ */
+
+/**
+ * Runs a test case
+ * @param name description of the case
+ * @param run the case, throwing to fail
+ */
+export function test(name: string, run: () => void): void {
+    try {
+        run();
+        console.log(`  pass: ${name}`);
+    } catch (err) {
+        console.error(`  FAIL: ${name}`);
+        console.error(err);
+        process.exitCode = 1;
+    }
+}
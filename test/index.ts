@@ -0,0 +1,4 @@
+import './effectstest.js';
+import './float32test.js';
+import './resumetest.js';
+import './seektest.js';
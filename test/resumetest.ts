@@ -0,0 +1,98 @@
+/*
+
+Pausing and resuming a track keeps the loop region and playback settings of its source, and
+continues from where playback stopped.
+
+ */
+
+import AudioSourceNode from '../src/AudioSourceNode.js';
+import TrackSingle from '../src/Track.js';
+import { test } from './harness.js';
+import { FakeAudioBufferSourceNode, FakeAudioContext } from './webaudio.js';
+
+import assert from 'node:assert/strict';
+
+console.log('resume');
+
+/**
+ * Creates a track playing a looping source with a changed playback rate and detune
+ */
+function playLoopingTrack(context: FakeAudioContext, pauseTime: number = 1): [TrackSingle, AudioSourceNode] {
+    const track = new TrackSingle('music', context.real, context.destination as any, null);
+    const source = new AudioSourceNode(context.real, track);
+    source.buffer = context.createBuffer(2, 10 * context.sampleRate, context.sampleRate) as any;
+    source.loop = true;
+    source.loopStart = 2;
+    source.loopEnd = 8;
+    source.playbackRate.value = 1.25;
+    source.detune.value = 100;
+
+    track.loadSource(source);
+    track.start();
+    context.currentTime = pauseTime;
+    track.pause();
+    return [track, source];
+}
+
+/**
+ * @returns the settings of the internal source node which plays the audio
+ */
+function settingsOf(node: FakeAudioBufferSourceNode) {
+    return {
+        loop: node.loop,
+        loopStart: node.loopStart,
+        loopEnd: node.loopEnd,
+        playbackRate: node.playbackRate.value,
+        detune: node.detune.value,
+    };
+}
+
+const expected = { loop: true, loopStart: 2, loopEnd: 8, playbackRate: 1.25, detune: 100 };
+
+test('resuming after the fade out keeps the loop of the source', () => {
+    const context = new FakeAudioContext();
+    const [track] = playLoopingTrack(context);
+
+    const paused = context.bufferSources.at(-1)!;
+    context.currentTime = 2;
+    paused.end();
+    track.resume();
+
+    const resumed = context.bufferSources.at(-1)!;
+    assert.notEqual(resumed, paused);
+    assert.notEqual(resumed.startedAt, null);
+    assert.deepEqual(settingsOf(resumed), expected);
+    track.stop();
+});
+
+test('resuming during the fade out keeps the loop of the source', () => {
+    const context = new FakeAudioContext();
+    const [track, source] = playLoopingTrack(context);
+
+    context.currentTime = 1.01;
+    track.resume();
+
+    const resumed = context.bufferSources.at(-1)!;
+    assert.notEqual(resumed.startedAt, null);
+    assert.notEqual(track.getActiveSource(), source);
+    assert.deepEqual(settingsOf(resumed), expected);
+    track.stop();
+});
+
+test('resuming continues from where the loop was paused', () => {
+    const context = new FakeAudioContext();
+    const [track] = playLoopingTrack(context, 20);
+
+    const paused = context.bufferSources.at(-1)!;
+    const rate = 1.25 * 2 ** (100 / 1200);
+    const stopPosition = rate * paused.stoppedAt!;
+    const expectedOffset = 2 + ((stopPosition - 8) % 6);
+
+    context.currentTime = 21;
+    paused.end();
+    track.resume();
+
+    const resumed = context.bufferSources.at(-1)!;
+    assert.ok(Math.abs(resumed.startOffset - expectedOffset) < 1e-9);
+    track.stop();
+});
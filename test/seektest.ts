@@ -0,0 +1,52 @@
+/*
+
+Seeking while stopped applies to the next start, also for a source loaded after the seek.
+
+ */
+
+import AudioSourceNode from '../src/AudioSourceNode.js';
+import TrackSingle from '../src/Track.js';
+import { test } from './harness.js';
+import { FakeAudioContext } from './webaudio.js';
+
+import assert from 'node:assert/strict';
+
+console.log('seek');
+
+/**
+ * Creates a source with a 10 second buffer
+ */
+function sourceFor(context: FakeAudioContext, track: TrackSingle): AudioSourceNode {
+    const source = new AudioSourceNode(context.real, track);
+    source.buffer = context.createBuffer(2, 10 * context.sampleRate, context.sampleRate) as any;
+    return source;
+}
+
+test('seeking to a sample before loading a source starts the source from it', () => {
+    const context = new FakeAudioContext();
+    const track = new TrackSingle('music', context.real, context.destination as any, null);
+
+    track.seek({ sample: 3 * context.sampleRate });
+    track.loadSource(sourceFor(context, track));
+    track.start();
+
+    assert.equal(context.bufferSources.at(-1)!.startOffset, 3);
+    track.stop();
+});
+
+test('seeking while stopped applies to a source swapped in before starting', () => {
+    const context = new FakeAudioContext();
+    const track = new TrackSingle('music', context.real, context.destination as any, null);
+    track.loadSource(sourceFor(context, track));
+    track.start();
+    context.currentTime = 1;
+    track.stop();
+    context.bufferSources.at(-1)!.end();
+
+    track.seek(4);
+    track.loadSource(sourceFor(context, track));
+    track.start();
+
+    assert.equal(context.bufferSources.at(-1)!.startOffset, 4);
+    track.stop();
+});
@@ -0,0 +1,198 @@
+/*
+
+Minimal stand-in for the Web Audio API, enough to construct tracks and sources outside of a browser.
+Nodes keep their settings and connections, but process no audio. Scheduled automation is ignored.
+Importing this module installs the globals the library needs.
+
+ */
+
+export class FakeAudioParam {
+    constructor(public value: number = 0) {}
+
+    setValueAtTime(): this {
+        return this;
+    }
+    linearRampToValueAtTime(): this {
+        return this;
+    }
+    exponentialRampToValueAtTime(): this {
+        return this;
+    }
+    setTargetAtTime(): this {
+        return this;
+    }
+    setValueCurveAtTime(): this {
+        return this;
+    }
+    cancelScheduledValues(): this {
+        return this;
+    }
+    cancelAndHoldAtTime(): this {
+        return this;
+    }
+}
+
+export class FakeAudioNode {
+    readonly connections: Set<FakeAudioNode | FakeAudioParam> = new Set();
+
+    constructor(
+        readonly context: FakeAudioContext,
+        readonly numberOfInputs: number = 1,
+        readonly numberOfOutputs: number = 1,
+    ) {}
+
+    connect<T extends FakeAudioNode | FakeAudioParam>(destination: T): T {
+        this.connections.add(destination);
+        return destination;
+    }
+
+    disconnect(destination?: FakeAudioNode | FakeAudioParam): void {
+        if (destination) {
+            this.connections.delete(destination);
+        } else {
+            this.connections.clear();
+        }
+    }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+    readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeStereoPannerNode extends FakeAudioNode {
+    readonly pan = new FakeAudioParam(0);
+}
+
+export class FakeAnalyserNode extends FakeAudioNode {
+    fftSize: number = 2048;
+
+    getFloatTimeDomainData(array: Float32Array): void {
+        array.fill(0);
+    }
+}
+
+export class FakeAudioBuffer {
+    readonly length: number;
+    readonly sampleRate: number;
+    readonly numberOfChannels: number;
+    private readonly channels: Float32Array[];
+
+    constructor(options: { length: number; sampleRate: number; numberOfChannels?: number }) {
+        this.length = options.length;
+        this.sampleRate = options.sampleRate;
+        this.numberOfChannels = options.numberOfChannels ?? 1;
+        this.channels = [];
+        for (let i = 0; i < this.numberOfChannels; i++) {
+            this.channels.push(new Float32Array(this.length));
+        }
+    }
+
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    getChannelData(channel: number): Float32Array {
+        return this.channels[channel]!;
+    }
+
+    copyToChannel(source: Float32Array, channel: number): void {
+        this.channels[channel]!.set(source.subarray(0, this.length));
+    }
+
+    copyFromChannel(destination: Float32Array, channel: number): void {
+        destination.set(this.channels[channel]!.subarray(0, destination.length));
+    }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+    buffer: FakeAudioBuffer | null = null;
+    loop: boolean = false;
+    loopStart: number = 0;
+    loopEnd: number = 0;
+    readonly playbackRate = new FakeAudioParam(1);
+    readonly detune = new FakeAudioParam(0);
+    onended: ((event: Event) => any) | null = null;
+
+    startedAt: number | null = null;
+    startOffset: number = 0;
+    stoppedAt: number | null = null;
+
+    start(when: number = 0, offset: number = 0): void {
+        if (this.startedAt != null) {
+            throw new Error('Cannot start a source node more than once');
+        }
+        this.startedAt = when;
+        this.startOffset = offset;
+    }
+
+    stop(when: number = 0): void {
+        if (this.startedAt == null) {
+            throw new Error('Cannot stop a source node before it is started');
+        }
+        this.stoppedAt = when;
+    }
+
+    /**
+     * Ends playback, as the audio thread would at the stop time
+     */
+    end(): void {
+        this.onended?.(new Event('ended'));
+    }
+}
+
+export class FakeAudioContext {
+    currentTime: number = 0;
+    readonly sampleRate: number = 48000;
+    readonly destination = new FakeAudioNode(this, 1, 0);
+
+    /**
+     * Every source node created by this context, in order
+     */
+    readonly bufferSources: FakeAudioBufferSourceNode[] = [];
+
+    createGain(): FakeGainNode {
+        return new FakeGainNode(this);
+    }
+
+    createStereoPanner(): FakeStereoPannerNode {
+        return new FakeStereoPannerNode(this);
+    }
+
+    createAnalyser(): FakeAnalyserNode {
+        return new FakeAnalyserNode(this);
+    }
+
+    createChannelSplitter(outputs: number = 6): FakeAudioNode {
+        return new FakeAudioNode(this, 1, outputs);
+    }
+
+    createChannelMerger(inputs: number = 6): FakeAudioNode {
+        return new FakeAudioNode(this, inputs, 1);
+    }
+
+    createBufferSource(): FakeAudioBufferSourceNode {
+        const node = new FakeAudioBufferSourceNode(this, 0, 1);
+        this.bufferSources.push(node);
+        return node;
+    }
+
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number): FakeAudioBuffer {
+        return new FakeAudioBuffer({ numberOfChannels, length, sampleRate });
+    }
+
+    /**
+     * @returns this context as the real type, for the constructors of the library
+     */
+    get real(): AudioContext {
+        return this as unknown as AudioContext;
+    }
+}
+
+// Globals the library checks against, so that fake nodes pass `instanceof` checks
+Object.assign(globalThis, {
+    AudioNode: FakeAudioNode,
+    AudioParam: FakeAudioParam,
+    AudioBuffer: FakeAudioBuffer,
+    requestAnimationFrame: () => 0,
+    cancelAnimationFrame: () => {},
+});